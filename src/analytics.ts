@@ -0,0 +1,212 @@
+import { roundTo } from "./format.ts";
+import { toDriveSummary, toEpochMs } from "./mappers.ts";
+import { TessieConsumption, TessieDrive } from "./types.ts";
+
+const MIN_EFFICIENCY_DISTANCE_MILES = 1; // shorter trips are dominated by wake/climate overhead
+const TRIP_RANK_SIZE = 3;
+const TEMPERATURE_BANDS_C = [
+  { label: "below 0°C", max: 0 },
+  { label: "0-10°C", max: 10 },
+  { label: "10-20°C", max: 20 },
+  { label: "20-30°C", max: 30 },
+  { label: "30°C and above", max: Infinity },
+];
+
+type Totals = { drives: number; distance_miles: number; energy_kwh: number };
+
+export const mileagePeriods = ["day", "week", "month"] as const;
+export type MileagePeriod = (typeof mileagePeriods)[number];
+
+function emptyTotals(): Totals {
+  return { drives: 0, distance_miles: 0, energy_kwh: 0 };
+}
+
+function whPerMile(energyKwh: number, distanceMiles: number) {
+  return distanceMiles > 0 ? roundTo((energyKwh * 1000) / distanceMiles, 1) : undefined;
+}
+
+function finalize(totals: Totals) {
+  return {
+    drives: totals.drives,
+    distance_miles: roundTo(totals.distance_miles),
+    energy_kwh: roundTo(totals.energy_kwh),
+    wh_per_mile: whPerMile(totals.energy_kwh, totals.distance_miles),
+  };
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar bucket for a timestamp in the given IANA time zone: `YYYY-MM-DD` for days,
+ * the Monday starting the ISO week for weeks, and `YYYY-MM` for months.
+ */
+export function bucketKey(value: number | string | undefined, period: MileagePeriod, timeZone = "UTC") {
+  const ms = toEpochMs(value);
+  if (ms === undefined) return "unknown";
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+      .formatToParts(new Date(ms))
+      .map((part) => [part.type, part.value]),
+  );
+  if (period === "month") return `${parts.year}-${parts.month}`;
+  if (period === "day") return `${parts.year}-${parts.month}-${parts.day}`;
+  const local = new Date(Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day)));
+  local.setUTCDate(local.getUTCDate() - ((local.getUTCDay() + 6) % 7));
+  return local.toISOString().slice(0, 10);
+}
+
+/**
+ * Distance, energy and drive count per day/week/month in the caller's time zone.
+ */
+export function buildMileageSummary(drives: TessieDrive[], period: MileagePeriod, timeZone = "UTC") {
+  const overall = emptyTotals();
+  const buckets = new Map<string, Totals>();
+  for (const drive of drives.map((item) => toDriveSummary(item))) {
+    const key = bucketKey(drive.started_at, period, timeZone);
+    if (!buckets.has(key)) buckets.set(key, emptyTotals());
+    for (const totals of [overall, buckets.get(key) as Totals]) {
+      totals.drives += 1;
+      totals.distance_miles += drive.distance_miles ?? 0;
+      totals.energy_kwh += drive.energy_used_kwh ?? 0;
+    }
+  }
+  return {
+    totals: finalize(overall),
+    buckets: Array.from(buckets.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([bucket, totals]) => ({ [period]: bucket, ...finalize(totals) })),
+  };
+}
+
+/**
+ * Efficiency (Wh/mi) per drive and per day in the caller's time zone, by outside temperature band,
+ * plus best/worst trips. A trip listed as best is never also listed as worst.
+ */
+export function buildEfficiencyReport(drives: TessieDrive[], consumption?: TessieConsumption, timeZone = "UTC") {
+  const trips = drives
+    .map((drive) => toDriveSummary(drive))
+    .filter(
+      (drive) =>
+        typeof drive.distance_miles === "number" &&
+        drive.distance_miles >= MIN_EFFICIENCY_DISTANCE_MILES &&
+        typeof drive.energy_used_kwh === "number",
+    )
+    .map((drive) => ({
+      id: drive.id,
+      started_at: drive.started_at,
+      start: drive.start,
+      end: drive.end,
+      distance_miles: drive.distance_miles as number,
+      energy_kwh: drive.energy_used_kwh as number,
+      outside_temp_c: drive.outside_temp,
+      wh_per_mile: whPerMile(drive.energy_used_kwh as number, drive.distance_miles as number) as number,
+    }));
+
+  const overall = emptyTotals();
+  const byDay = new Map<string, Totals>();
+  const byBand = new Map<string, Totals>();
+  for (const trip of trips) {
+    const targets = [overall];
+    const day = bucketKey(trip.started_at, "day", timeZone);
+    if (!byDay.has(day)) byDay.set(day, emptyTotals());
+    targets.push(byDay.get(day) as Totals);
+    if (typeof trip.outside_temp_c === "number") {
+      const band = TEMPERATURE_BANDS_C.find((b) => (trip.outside_temp_c as number) < b.max) ?? TEMPERATURE_BANDS_C[0];
+      if (!byBand.has(band.label)) byBand.set(band.label, emptyTotals());
+      targets.push(byBand.get(band.label) as Totals);
+    }
+    for (const totals of targets) {
+      totals.drives += 1;
+      totals.distance_miles += trip.distance_miles;
+      totals.energy_kwh += trip.energy_kwh;
+    }
+  }
+
+  const ranked = [...trips].sort((a, b) => a.wh_per_mile - b.wh_per_mile);
+  const best = ranked.slice(0, TRIP_RANK_SIZE);
+
+  return {
+    overall: finalize(overall),
+    by_day: Array.from(byDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, totals]) => ({ day, ...finalize(totals) })),
+    by_outside_temp: TEMPERATURE_BANDS_C.filter((band) => byBand.has(band.label)).map((band) => ({
+      band: band.label,
+      ...finalize(byBand.get(band.label) as Totals),
+    })),
+    best_trips: best,
+    worst_trips: ranked.slice(Math.max(best.length, ranked.length - TRIP_RANK_SIZE)).reverse(),
+    excluded_drives: drives.length - trips.length,
+    since_last_charge: consumption
+      ? {
+          last_charge_at: consumption.last_charge_at,
+          distance_miles: consumption.distance_driven,
+          energy_kwh: consumption.energy_used,
+          wh_per_mile:
+            consumption.energy_used !== undefined && consumption.distance_driven !== undefined
+              ? whPerMile(consumption.energy_used, consumption.distance_driven)
+              : undefined,
+          driving_share_percent:
+            consumption.energy_used && consumption.energy_used_by_driving !== undefined
+              ? Math.round((consumption.energy_used_by_driving / consumption.energy_used) * 100)
+              : undefined,
+        }
+      : undefined,
+  };
+}
+
+export const tripLogColumns = [
+  "date",
+  "from",
+  "to",
+  "distance_miles",
+  "odometer_start",
+  "odometer_end",
+  "purpose",
+  "drive_id",
+];
+
+/**
+ * Mileage-reimbursement rows for tagged drives, oldest first. Untagged drives are skipped;
+ * when `tag` is set only drives with that tag are included.
+ */
+export function buildTripLog(drives: TessieDrive[], options: { tag?: string; timeZone?: string } = {}) {
+  const entries = drives
+    .filter((drive) => (options.tag ? drive.tag === options.tag : Boolean(drive.tag)))
+    .sort((a, b) => (toEpochMs(a.started_at ?? a.start_date) ?? 0) - (toEpochMs(b.started_at ?? b.start_date) ?? 0))
+    .map((drive) => {
+      const summary = toDriveSummary(drive);
+      return {
+        date: bucketKey(summary.started_at, "day", options.timeZone),
+        from: summary.start,
+        to: summary.end,
+        distance_miles: summary.distance_miles !== undefined ? roundTo(summary.distance_miles) : undefined,
+        odometer_start: drive.starting_odometer !== undefined ? roundTo(drive.starting_odometer, 1) : undefined,
+        odometer_end: drive.ending_odometer !== undefined ? roundTo(drive.ending_odometer, 1) : undefined,
+        purpose: drive.tag as string,
+        drive_id: summary.id,
+      };
+    });
+  const byPurpose = new Map<string, { drives: number; distance_miles: number }>();
+  for (const entry of entries) {
+    const totals = byPurpose.get(entry.purpose) ?? { drives: 0, distance_miles: 0 };
+    totals.drives += 1;
+    totals.distance_miles += entry.distance_miles ?? 0;
+    byPurpose.set(entry.purpose, totals);
+  }
+  return {
+    entries,
+    totals_by_purpose: Array.from(byPurpose.entries()).map(([purpose, totals]) => ({
+      purpose,
+      drives: totals.drives,
+      distance_miles: roundTo(totals.distance_miles),
+    })),
+  };
+}
@@ -0,0 +1,102 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { sanitizeMetaDeep } from "./sanitize.ts";
+
+export const DEFAULT_AUDIT_LOG_PATH = join(homedir(), ".tessie-mcp", "command-audit.jsonl");
+
+export const auditOutcomes = ["sent", "rejected", "wake_timeout", "error"] as const;
+export type AuditOutcome = (typeof auditOutcomes)[number];
+
+export type CommandAuditEntry = {
+  timestamp: string;
+  vin?: string;
+  vehicle?: string;
+  operation: string;
+  payload: unknown;
+  confirm: boolean;
+  outcome: AuditOutcome;
+  verification?: string;
+  error?: string;
+  latency_ms: number;
+  client_id?: string;
+  session_id?: string;
+};
+
+export interface AuditQuery {
+  vin?: string;
+  operation?: string;
+  outcome?: AuditOutcome;
+  start?: string;
+  end?: string;
+  limit?: number;
+}
+
+/**
+ * Append-only JSONL record of vehicle commands. Payloads pass through `sanitizeMetaDeep` with `redact`, so
+ * PINs and credentials never reach disk. The first write failure is reported; none fail the audited command.
+ */
+export class CommandAuditLog {
+  readonly path: string;
+  private pending: Promise<void> = Promise.resolve();
+  private warned = false;
+
+  constructor(path = DEFAULT_AUDIT_LOG_PATH) {
+    this.path = path;
+  }
+
+  append(entry: CommandAuditEntry) {
+    const line = `${JSON.stringify({ ...entry, payload: sanitizeMetaDeep(entry.payload, { redact: true }) })}\n`;
+    // chain writes so concurrent commands keep their order in the file
+    this.pending = this.pending
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, line, "utf8");
+      })
+      .catch((error) => {
+        // warn once; a missing or read-only log would otherwise repeat this on every command
+        if (this.warned) return;
+        this.warned = true;
+        console.warn(
+          `Failed to write command audit log ${this.path}; further failures are not reported`,
+          sanitizeMetaDeep(error),
+        );
+      });
+    return this.pending;
+  }
+
+  /**
+   * Matching entries, newest first. Lines that are not valid JSON are skipped.
+   */
+  async query(filter: AuditQuery = {}): Promise<CommandAuditEntry[]> {
+    await this.pending;
+    let contents: string;
+    try {
+      contents = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+      throw error;
+    }
+    const startMs = filter.start ? Date.parse(filter.start) : undefined;
+    const endMs = filter.end ? Date.parse(filter.end) : undefined;
+    const entries: CommandAuditEntry[] = [];
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: CommandAuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      const at = Date.parse(entry.timestamp);
+      if (filter.vin && entry.vin !== filter.vin) continue;
+      if (filter.operation && entry.operation !== filter.operation) continue;
+      if (filter.outcome && entry.outcome !== filter.outcome) continue;
+      if (startMs !== undefined && !(at >= startMs)) continue;
+      if (endMs !== undefined && !(at <= endMs)) continue;
+      entries.push(entry);
+    }
+    entries.reverse();
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+}
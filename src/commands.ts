@@ -0,0 +1,664 @@
+import { z } from "zod";
+
+export const operations = [
+  // Basic Vehicle Control
+  "lock",
+  "unlock",
+  "wake",
+  "flash_lights",
+  "honk",
+
+  // Trunk & Access
+  "activate_front_trunk",
+  "activate_rear_trunk",
+  "open_tonneau",
+  "close_tonneau",
+
+  // Windows & Sunroof
+  "vent_windows",
+  "close_windows",
+  "vent_sunroof",
+  "close_sunroof",
+
+  // Climate Control
+  "start_climate",
+  "stop_climate",
+  "set_temperature",
+  "set_seat_heating",
+  "set_seat_cooling",
+  "start_defrost",
+  "stop_defrost",
+  "start_steering_wheel_heater",
+  "stop_steering_wheel_heater",
+  "set_cabin_overheat_protection",
+  "set_cabin_overheat_protection_temp",
+  "set_bioweapon_mode",
+  "set_climate_keeper_mode",
+
+  // Charging
+  "start_charging",
+  "stop_charging",
+  "set_charge_limit",
+  "set_charging_amps",
+  "open_charge_port",
+  "close_charge_port",
+  "set_scheduled_charging",
+  "add_charge_schedule",
+  "remove_charge_schedule",
+
+  // Convenience & Features
+  "trigger_homelink",
+  "remote_start",
+  "remote_boombox",
+  "share",
+
+  // Security & Modes
+  "enable_sentry_mode",
+  "disable_sentry_mode",
+  "enable_valet_mode",
+  "disable_valet_mode",
+  "enable_guest_mode",
+  "disable_guest_mode",
+
+  // Speed Limiting
+  "set_speed_limit",
+  "enable_speed_limit",
+  "disable_speed_limit",
+  "clear_speed_limit_pin",
+
+  // Software Updates
+  "schedule_software_update",
+  "cancel_software_update",
+
+  // Scheduling & Departure
+  "set_scheduled_departure",
+  "add_precondition_schedule",
+  "remove_precondition_schedule",
+] as const;
+
+export type Operation = (typeof operations)[number];
+
+export const SAFE_OPERATIONS: Operation[] = [
+  "flash_lights",
+  "honk",
+  "wake",
+  "activate_front_trunk",
+  "activate_rear_trunk",
+  "open_tonneau",
+  "close_tonneau",
+  "vent_windows",
+  "close_windows",
+  "vent_sunroof",
+  "close_sunroof",
+  "trigger_homelink",
+  "remote_boombox",
+];
+
+const CLIMATE_KEEPER_MODES = ["off", "keep", "dog", "camp"] as const;
+export const DAYS_OF_WEEK = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
+
+// built per schema so the published JSON schema inlines each field instead of emitting $refs between operations
+const baseParams = () => ({
+  wait_for_completion: z.boolean().optional().describe("Wait for the vehicle to confirm the command (default true)."),
+  confirm: z.boolean().optional().describe("Required true for state-changing operations."),
+});
+const BASE_PARAM_NAMES = Object.keys(baseParams());
+
+function paramsSchema<T extends z.ZodRawShape>(shape: T) {
+  return z.object({ ...baseParams(), ...shape }).strict();
+}
+
+const noParams = paramsSchema({});
+const seatParams = paramsSchema({
+  seat_position: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Seat index per Tessie docs (0=driver, 1=passenger, 2=rear left, 4=rear center, 5=rear right)."),
+  seat_level: z.number().int().min(0).max(3).describe("Heating/cooling level (0-3)."),
+});
+const speedLimitPinParams = paramsSchema({
+  speed_limit_pin: z
+    .string()
+    .regex(/^\d{4}$/, "speed_limit_pin must be a 4-digit PIN")
+    .describe("4-digit speed limit PIN (sensitive; avoid logging)."),
+});
+
+const minutesAfterMidnight = (description: string) =>
+  z.number().int().min(0).max(1439).describe(`${description} in minutes after local midnight (0-1439).`);
+const scheduleId = () =>
+  z
+    .number()
+    .int()
+    .describe("Schedule id from list_vehicle_schedules. Required to remove; pass on add to update an existing schedule.");
+const scheduleFields = () => ({
+  schedule_id: scheduleId().optional(),
+  days_of_week: z
+    .array(z.enum(DAYS_OF_WEEK))
+    .min(1)
+    .describe('Days the schedule applies to, e.g. ["Monday", "Friday"].'),
+  latitude: z.number().min(-90).max(90).describe("Latitude of the location the schedule applies to."),
+  longitude: z.number().min(-180).max(180).describe("Longitude of the location the schedule applies to."),
+  one_time: z.boolean().optional().describe("Run once instead of recurring weekly (default false)."),
+  enabled: z.boolean().optional().describe("Whether the schedule is active (default true)."),
+});
+
+/**
+ * Per-operation parameter schemas. Each operation only accepts its own fields; unknown keys are rejected
+ * so a field meant for another operation is reported instead of silently ignored.
+ */
+const commandParams = {
+  lock: noParams,
+  unlock: noParams,
+  wake: noParams,
+  flash_lights: noParams,
+  honk: noParams,
+  activate_front_trunk: noParams,
+  activate_rear_trunk: noParams,
+  open_tonneau: noParams,
+  close_tonneau: noParams,
+  vent_windows: noParams,
+  close_windows: noParams,
+  vent_sunroof: noParams,
+  close_sunroof: noParams,
+  start_climate: noParams,
+  stop_climate: noParams,
+  set_temperature: paramsSchema({
+    cabin_temp_c: z.number().min(-10).max(40).describe("Cabin temperature in °C (-10 to 40)."),
+  }),
+  set_seat_heating: seatParams,
+  set_seat_cooling: seatParams,
+  start_defrost: noParams,
+  stop_defrost: noParams,
+  start_steering_wheel_heater: noParams,
+  stop_steering_wheel_heater: noParams,
+  set_cabin_overheat_protection: paramsSchema({
+    cabin_overheat_on: z.boolean().describe("Turn Cabin Overheat Protection on (true) or off (false)."),
+    fan_only: z.boolean().optional().describe("Use fan only instead of A/C."),
+  }),
+  set_cabin_overheat_protection_temp: paramsSchema({
+    cabin_overheat_temp_c: z.number().min(15).max(60).describe("Activation temperature in °C (15-60)."),
+  }),
+  set_bioweapon_mode: paramsSchema({
+    bioweapon_mode_on: z.boolean().describe("Turn Bioweapon Defense Mode on (true) or off (false)."),
+  }),
+  set_climate_keeper_mode: paramsSchema({
+    climate_keeper_mode: z.enum(CLIMATE_KEEPER_MODES).describe("Climate Keeper mode: off, keep, dog or camp."),
+  }),
+  start_charging: noParams,
+  stop_charging: noParams,
+  set_charge_limit: paramsSchema({
+    charge_limit_percent: z.number().int().min(1).max(100).describe("Charge limit percent (1-100)."),
+  }),
+  set_charging_amps: paramsSchema({
+    charging_amps: z.number().int().positive().describe("Charging current in amps."),
+  }),
+  open_charge_port: noParams,
+  close_charge_port: noParams,
+  set_scheduled_charging: paramsSchema({
+    enable: z.boolean().describe("Enable (true) or disable (false) the schedule."),
+    time_minutes: z
+      .number()
+      .int()
+      .min(0)
+      .max(1439)
+      .optional()
+      .describe("Start time in minutes after local midnight (0-1439); required when enabling."),
+  }).superRefine((params, ctx) => {
+    if (params.enable && params.time_minutes === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["time_minutes"],
+        message: "time_minutes is required when enable is true",
+      });
+    }
+  }),
+  add_charge_schedule: paramsSchema({
+    ...scheduleFields(),
+    start_time_minutes: minutesAfterMidnight("Charging start time").optional(),
+    end_time_minutes: minutesAfterMidnight("Charging end time").optional(),
+  }).superRefine((params, ctx) => {
+    if (params.start_time_minutes === undefined && params.end_time_minutes === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["start_time_minutes"],
+        message: "start_time_minutes or end_time_minutes is required",
+      });
+    }
+  }),
+  remove_charge_schedule: paramsSchema({ schedule_id: scheduleId() }),
+  trigger_homelink: noParams,
+  remote_start: noParams,
+  remote_boombox: noParams,
+  share: paramsSchema({
+    share_value: z.string().min(1).describe("Address, \"latitude,longitude\" or video URL to send to the vehicle."),
+    locale: z.string().optional().describe("Locale of the shared value (e.g. en-US)."),
+  }),
+  enable_sentry_mode: noParams,
+  disable_sentry_mode: noParams,
+  enable_valet_mode: noParams,
+  disable_valet_mode: noParams,
+  enable_guest_mode: noParams,
+  disable_guest_mode: noParams,
+  set_speed_limit: paramsSchema({
+    speed_limit_mph: z.number().positive().describe("Speed limit in mph."),
+  }),
+  enable_speed_limit: speedLimitPinParams,
+  disable_speed_limit: speedLimitPinParams,
+  clear_speed_limit_pin: speedLimitPinParams,
+  schedule_software_update: paramsSchema({
+    offset_seconds: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Seconds from now to start installing (default 0 = now)."),
+  }),
+  cancel_software_update: noParams,
+  set_scheduled_departure: paramsSchema({
+    enable: z.boolean().describe("Enable (true) or disable (false) the schedule."),
+    departure_time_minutes: minutesAfterMidnight("Departure time").optional(),
+    preconditioning_enabled: z.boolean().optional().describe("Precondition the cabin and battery for departure."),
+    preconditioning_weekdays_only: z.boolean().optional().describe("Only precondition on weekdays."),
+    off_peak_charging_enabled: z.boolean().optional().describe("Delay charging to off-peak hours."),
+    off_peak_charging_weekdays_only: z.boolean().optional().describe("Only use off-peak charging on weekdays."),
+    end_off_peak_time_minutes: minutesAfterMidnight("End of off-peak hours").optional(),
+  }).superRefine((params, ctx) => {
+    if (params.enable && params.departure_time_minutes === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["departure_time_minutes"],
+        message: "departure_time_minutes is required when enable is true",
+      });
+    }
+  }),
+  add_precondition_schedule: paramsSchema({
+    ...scheduleFields(),
+    precondition_time_minutes: minutesAfterMidnight("Time the cabin should be ready"),
+  }),
+  remove_precondition_schedule: paramsSchema({ schedule_id: scheduleId() }),
+} satisfies Record<Operation, z.ZodTypeAny>;
+
+export type CommandParams<Op extends Operation> = z.output<(typeof commandParams)[Op]>;
+
+export type CommandInput = {
+  [Op in Operation]: { operation: Op; params: CommandParams<Op> };
+}[Operation];
+
+/**
+ * A value the vehicle state should show once a command has taken effect. `path` is a dotted path into
+ * the Tessie state response; `oneOf` accepts any of several values (e.g. charging "Starting" or "Charging");
+ * `tolerance` accepts numbers within that distance of `equals` (e.g. setpoints the car rounds).
+ */
+export type StateExpectation =
+  | { path: string; equals: unknown; tolerance?: number }
+  | { path: string; oneOf: readonly unknown[] };
+
+type CommandDefinition<Op extends Operation> = {
+  endpoint: string;
+  buildPayload?: (params: CommandParams<Op>) => Record<string, unknown>;
+  expect?: (params: CommandParams<Op>) => StateExpectation[];
+};
+
+const SEAT_HEATER_PATHS: Record<number, string> = {
+  0: "climate_state.seat_heater_left",
+  1: "climate_state.seat_heater_right",
+  2: "climate_state.seat_heater_rear_left",
+  4: "climate_state.seat_heater_rear_center",
+  5: "climate_state.seat_heater_rear_right",
+};
+const SEAT_COOLING_PATHS: Record<number, string> = {
+  0: "climate_state.climate_seat_cooling_front_left",
+  1: "climate_state.climate_seat_cooling_front_right",
+};
+const CLIMATE_KEEPER_STATE_VALUES = { off: "off", keep: "on", dog: "dog", camp: "camp" } as const;
+
+const expectState = (path: string, equals: unknown): StateExpectation[] => [{ path, equals }];
+// the car stores cabin setpoints in 0.5°C steps, or as whole °F converted back to °C
+const TEMPERATURE_TOLERANCE_C = 0.5;
+
+export const commandMap: { [Op in Operation]: CommandDefinition<Op> } = {
+  lock: { endpoint: "lock", expect: () => expectState("vehicle_state.locked", true) },
+  unlock: { endpoint: "unlock", expect: () => expectState("vehicle_state.locked", false) },
+  start_charging: {
+    endpoint: "start_charging",
+    expect: () => [{ path: "charge_state.charging_state", oneOf: ["Starting", "Charging"] }],
+  },
+  stop_charging: {
+    endpoint: "stop_charging",
+    expect: () => [{ path: "charge_state.charging_state", oneOf: ["Stopped", "Complete", "Disconnected"] }],
+  },
+  flash_lights: { endpoint: "flash" },
+  honk: { endpoint: "honk" },
+  // sent through TessieClient.wake (`/{vin}/wake`); there is no `command/wake` endpoint
+  wake: { endpoint: "wake", buildPayload: () => ({}), expect: () => expectState("state", "online") },
+  start_climate: { endpoint: "start_climate", expect: () => expectState("climate_state.is_climate_on", true) },
+  stop_climate: { endpoint: "stop_climate", expect: () => expectState("climate_state.is_climate_on", false) },
+  start_defrost: {
+    endpoint: "start_max_defrost",
+    expect: () => expectState("climate_state.is_front_defroster_on", true),
+  },
+  stop_defrost: {
+    endpoint: "stop_max_defrost",
+    expect: () => expectState("climate_state.is_front_defroster_on", false),
+  },
+  start_steering_wheel_heater: {
+    endpoint: "start_steering_wheel_heater",
+    expect: () => expectState("climate_state.steering_wheel_heater", true),
+  },
+  stop_steering_wheel_heater: {
+    endpoint: "stop_steering_wheel_heater",
+    expect: () => expectState("climate_state.steering_wheel_heater", false),
+  },
+  set_charge_limit: {
+    endpoint: "set_charge_limit",
+    buildPayload: (p) => ({
+      percent: p.charge_limit_percent,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) => expectState("charge_state.charge_limit_soc", p.charge_limit_percent),
+  },
+  set_charging_amps: {
+    endpoint: "set_charging_amps",
+    buildPayload: (p) => ({
+      amps: p.charging_amps,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) => expectState("charge_state.charge_current_request", p.charging_amps),
+  },
+  set_temperature: {
+    endpoint: "set_temperatures",
+    buildPayload: (p) => ({
+      temperature: p.cabin_temp_c,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) => [
+      { path: "climate_state.driver_temp_setting", equals: p.cabin_temp_c, tolerance: TEMPERATURE_TOLERANCE_C },
+    ],
+  },
+  set_seat_heating: {
+    endpoint: "set_seat_heat",
+    buildPayload: (p) => ({
+      seat: p.seat_position,
+      level: p.seat_level,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) =>
+      SEAT_HEATER_PATHS[p.seat_position] ? expectState(SEAT_HEATER_PATHS[p.seat_position], p.seat_level) : [],
+  },
+  set_seat_cooling: {
+    endpoint: "set_seat_cool",
+    buildPayload: (p) => ({
+      seat: p.seat_position,
+      level: p.seat_level,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) =>
+      SEAT_COOLING_PATHS[p.seat_position] ? expectState(SEAT_COOLING_PATHS[p.seat_position], p.seat_level) : [],
+  },
+  set_speed_limit: {
+    endpoint: "set_speed_limit",
+    buildPayload: (p) => ({
+      mph: p.speed_limit_mph,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) => expectState("vehicle_state.speed_limit_mode.current_limit_mph", p.speed_limit_mph),
+  },
+  enable_speed_limit: {
+    endpoint: "enable_speed_limit",
+    buildPayload: (p) => ({
+      pin: p.speed_limit_pin,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: () => expectState("vehicle_state.speed_limit_mode.active", true),
+  },
+  disable_speed_limit: {
+    endpoint: "disable_speed_limit",
+    buildPayload: (p) => ({
+      pin: p.speed_limit_pin,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: () => expectState("vehicle_state.speed_limit_mode.active", false),
+  },
+  clear_speed_limit_pin: {
+    endpoint: "clear_speed_limit_pin",
+    buildPayload: (p) => ({
+      pin: p.speed_limit_pin,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: () => expectState("vehicle_state.speed_limit_mode.pin_code_set", false),
+  },
+  set_cabin_overheat_protection: {
+    endpoint: "set_cabin_overheat_protection",
+    buildPayload: (p) => ({
+      on: p.cabin_overheat_on,
+      fan_only: p.fan_only,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) =>
+      expectState("climate_state.cabin_overheat_protection", p.cabin_overheat_on ? (p.fan_only ? "FanOnly" : "On") : "Off"),
+  },
+  set_cabin_overheat_protection_temp: {
+    endpoint: "set_cop_temp",
+    buildPayload: (p) => ({
+      cop_temp: p.cabin_overheat_temp_c,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+  },
+  enable_sentry_mode: { endpoint: "enable_sentry", expect: () => expectState("vehicle_state.sentry_mode", true) },
+  disable_sentry_mode: { endpoint: "disable_sentry", expect: () => expectState("vehicle_state.sentry_mode", false) },
+
+  // Trunk & Access
+  activate_front_trunk: { endpoint: "activate_front_trunk" },
+  activate_rear_trunk: { endpoint: "activate_rear_trunk" },
+  open_tonneau: { endpoint: "open_tonneau" },
+  close_tonneau: { endpoint: "close_tonneau" },
+
+  // Windows & Sunroof
+  vent_windows: { endpoint: "vent_windows" },
+  close_windows: {
+    endpoint: "close_windows",
+    expect: () =>
+      ["fd_window", "fp_window", "rd_window", "rp_window"].map((window) => ({ path: `vehicle_state.${window}`, equals: 0 })),
+  },
+  vent_sunroof: { endpoint: "vent_sunroof" },
+  close_sunroof: { endpoint: "close_sunroof" },
+
+  // Charging (additional)
+  open_charge_port: {
+    endpoint: "open_charge_port",
+    expect: () => expectState("charge_state.charge_port_door_open", true),
+  },
+  close_charge_port: {
+    endpoint: "close_charge_port",
+    expect: () => expectState("charge_state.charge_port_door_open", false),
+  },
+  set_scheduled_charging: {
+    endpoint: "set_scheduled_charging",
+    buildPayload: (p) => ({
+      enable: p.enable,
+      time: p.time_minutes,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) =>
+      p.enable
+        ? [
+            { path: "charge_state.scheduled_charging_mode", equals: "StartAt" },
+            { path: "charge_state.scheduled_charging_start_time_minutes", equals: p.time_minutes },
+          ]
+        : expectState("charge_state.scheduled_charging_mode", "Off"),
+  },
+  add_charge_schedule: {
+    endpoint: "add_charge_schedule",
+    buildPayload: (p) => ({
+      id: p.schedule_id,
+      days_of_week: p.days_of_week.join(","),
+      enabled: p.enabled ?? true,
+      start_enabled: p.start_time_minutes !== undefined,
+      start_time: p.start_time_minutes,
+      end_enabled: p.end_time_minutes !== undefined,
+      end_time: p.end_time_minutes,
+      lat: p.latitude,
+      lon: p.longitude,
+      one_time: p.one_time ?? false,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+  },
+  remove_charge_schedule: {
+    endpoint: "remove_charge_schedule",
+    buildPayload: (p) => ({
+      id: p.schedule_id,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+  },
+
+  // Climate (additional)
+  set_bioweapon_mode: {
+    endpoint: "set_bioweapon_mode",
+    buildPayload: (p) => ({
+      on: p.bioweapon_mode_on,
+      manual_override: false,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) => expectState("climate_state.bioweapon_mode", p.bioweapon_mode_on),
+  },
+  set_climate_keeper_mode: {
+    endpoint: "set_climate_keeper_mode",
+    buildPayload: (p) => ({
+      mode: CLIMATE_KEEPER_MODES.indexOf(p.climate_keeper_mode), // 0=off, 1=keep, 2=dog, 3=camp
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) => expectState("climate_state.climate_keeper_mode", CLIMATE_KEEPER_STATE_VALUES[p.climate_keeper_mode]),
+  },
+
+  // Convenience & Features
+  trigger_homelink: { endpoint: "trigger_homelink" },
+  remote_start: { endpoint: "remote_start", expect: () => expectState("vehicle_state.remote_start", true) },
+  remote_boombox: { endpoint: "remote_boombox" },
+  share: {
+    endpoint: "share",
+    buildPayload: (p) => ({
+      value: p.share_value,
+      locale: p.locale,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+  },
+
+  // Security & Modes
+  enable_valet_mode: { endpoint: "enable_valet", expect: () => expectState("vehicle_state.valet_mode", true) },
+  disable_valet_mode: { endpoint: "disable_valet", expect: () => expectState("vehicle_state.valet_mode", false) },
+  enable_guest_mode: { endpoint: "enable_guest" },
+  disable_guest_mode: { endpoint: "disable_guest" },
+
+  // Software Updates
+  schedule_software_update: {
+    endpoint: "schedule_software_update",
+    buildPayload: (p) => ({
+      in_seconds: p.offset_seconds ?? 0,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+  },
+  cancel_software_update: { endpoint: "cancel_software_update" },
+
+  // Scheduling & Departure
+  set_scheduled_departure: {
+    endpoint: "set_scheduled_departure",
+    buildPayload: (p) => ({
+      enable: p.enable,
+      departure_time: p.departure_time_minutes,
+      preconditioning_enabled: p.preconditioning_enabled,
+      preconditioning_weekdays_only: p.preconditioning_weekdays_only,
+      off_peak_charging_enabled: p.off_peak_charging_enabled,
+      off_peak_charging_weekdays_only: p.off_peak_charging_weekdays_only,
+      end_off_peak_time: p.end_off_peak_time_minutes,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+    expect: (p) =>
+      p.enable ? expectState("charge_state.scheduled_departure_time_minutes", p.departure_time_minutes) : [],
+  },
+  add_precondition_schedule: {
+    endpoint: "add_precondition_schedule",
+    buildPayload: (p) => ({
+      id: p.schedule_id,
+      days_of_week: p.days_of_week.join(","),
+      enabled: p.enabled ?? true,
+      precondition_time: p.precondition_time_minutes,
+      lat: p.latitude,
+      lon: p.longitude,
+      one_time: p.one_time ?? false,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+  },
+  remove_precondition_schedule: {
+    endpoint: "remove_precondition_schedule",
+    buildPayload: (p) => ({
+      id: p.schedule_id,
+      wait_for_completion: p.wait_for_completion ?? true,
+    }),
+  },
+};
+
+function objectShape(schema: z.ZodTypeAny): z.ZodRawShape {
+  const inner = schema instanceof z.ZodEffects ? schema.innerType() : schema;
+  return inner instanceof z.ZodObject ? inner.shape : {};
+}
+
+/**
+ * Discriminated union of every operation with its own params, used to validate tool input.
+ */
+export const commandSchema = (() => {
+  const [first, ...rest] = operations.map((operation) =>
+    z.object({
+      operation: z.literal(operation),
+      params: (commandParams[operation] as z.ZodTypeAny).default({}),
+    }),
+  );
+  return z.discriminatedUnion("operation", [first, ...rest]);
+})();
+
+export function parseCommand(operation: Operation, params: unknown): CommandInput {
+  const parsed = commandSchema.safeParse({ operation, params });
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => {
+      const path = issue.path.filter((segment) => segment !== "params").join(".");
+      return path ? `${path}: ${issue.message}` : issue.message;
+    });
+    throw new Error(`Invalid params for ${operation}: ${issues.join("; ")}`);
+  }
+  return parsed.data as CommandInput;
+}
+
+/**
+ * Advertised `params` schema: a union of one strict object per distinct parameter set, each labelled with the
+ * operations that take it, so the published JSON schema lists exactly what every operation accepts.
+ * Cross-field rules (e.g. time_minutes when enabling a schedule) are enforced by `parseCommand`.
+ */
+export const commandParamsSchema = (() => {
+  const groups = new Map<z.ZodTypeAny, Operation[]>();
+  for (const operation of operations) {
+    const schema = commandParams[operation] as z.ZodTypeAny;
+    groups.set(schema, [...(groups.get(schema) ?? []), operation]);
+  }
+  const members = [...groups].map(([schema, usedBy]) =>
+    ((schema instanceof z.ZodEffects ? schema.innerType() : schema) as z.AnyZodObject)
+      // a failing catchall (published as additionalProperties: {not: {}}) makes an extra key fail its option
+      // outright; `.strict()` alone only marks it dirty and the union would report that option's unknown-key
+      // error instead of the real problem in the intended operation's params
+      .catchall(z.undefined())
+      .describe(`Params for ${usedBy.join(", ")}.`),
+  );
+  const [first, second, ...rest] = members;
+  return z.union([first, second, ...rest]);
+})();
+
+/**
+ * One line per operation listing its params; `*` marks required fields.
+ */
+export const operationGuide = operations
+  .map((operation) => {
+    const fields = Object.entries(objectShape(commandParams[operation]))
+      .filter(([name]) => !BASE_PARAM_NAMES.includes(name))
+      .map(([name, schema]) => (schema.isOptional() ? name : `${name}*`));
+    return `${operation}(${fields.join(", ")})`;
+  })
+  .join("; ");
@@ -38,6 +38,7 @@ export function toMcpError(error: unknown, context: string): McpError {
       suggestion: getSuggestionForStatus(status),
       details: {
         context,
+        code: error.code,
         request: safeConfig,
         statusText: error.response?.statusText,
       },
@@ -1,14 +1,40 @@
-export function wrapContent(data: unknown) {
+export interface ImageContent {
+  data: string; // base64
+  mimeType: string;
+}
+
+/**
+ * JSON text content, optionally followed by image parts for clients that render them.
+ */
+export function wrapContent(data: unknown, images: ImageContent[] = []) {
   return {
     content: [
       {
         type: "text" as const,
         text: JSON.stringify(data, null, 2),
       },
+      ...images.map((image) => ({ type: "image" as const, data: image.data, mimeType: image.mimeType })),
     ],
   };
 }
 
+function csvCell(value: unknown) {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders rows as RFC 4180 CSV with a header line; columns default to the first row's keys.
+ */
+export function toCsv(rows: Array<Record<string, unknown>>, columns = Object.keys(rows[0] ?? {})) {
+  const lines = [columns.map(csvCell).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvCell(row[column])).join(","));
+  }
+  return lines.join("\r\n");
+}
+
 export function summarizeList<T extends { [key: string]: unknown }>(
   items: T[],
   limit = 10,
@@ -20,3 +46,22 @@ export function summarizeList<T extends { [key: string]: unknown }>(
       : undefined;
   return meta ? { items: truncated, ...meta } : { items: truncated };
 }
+
+/**
+ * Evenly samples a series down to at most `maxPoints`, always keeping the first and last item.
+ */
+export function downsample<T>(items: T[], maxPoints: number) {
+  if (items.length <= maxPoints) return items;
+  if (maxPoints <= 1) return items.slice(-1);
+  const step = (items.length - 1) / (maxPoints - 1);
+  const sampled: T[] = [];
+  for (let i = 0; i < maxPoints; i += 1) {
+    sampled.push(items[Math.round(i * step)]);
+  }
+  return sampled;
+}
+
+export function roundTo(value: number, digits = 2) {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
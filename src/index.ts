@@ -1,18 +1,59 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { TessieClient } from "./tessie-client.ts";
-import { wrapContent, summarizeList } from "./format.ts";
+import { TELEMETRY_FIELD_NAME_REGEX, TelemetryStream } from "./telemetry.ts";
+import { AuditOutcome, CommandAuditLog, auditOutcomes } from "./audit.ts";
+import {
+  SAFE_OPERATIONS,
+  StateExpectation,
+  commandMap,
+  commandParamsSchema,
+  operationGuide,
+  operations,
+  parseCommand,
+} from "./commands.ts";
+import { wrapContent, summarizeList, roundTo, downsample, toCsv } from "./format.ts";
 import { toMcpError } from "./errors.ts";
+import { PathPoint, renderPathMap } from "./path-map.ts";
+import {
+  buildEfficiencyReport,
+  buildMileageSummary,
+  buildTripLog,
+  isValidTimeZone,
+  mileagePeriods,
+  tripLogColumns,
+} from "./analytics.ts";
+import { VIN_REGEX, mapWithConcurrency, resolveVehicle } from "./vehicles.ts";
+import { verifyCommandState } from "./verify.ts";
+import { WakePhase, wakeAndWait } from "./wake.ts";
 import {
+  toBatteryHealthSummary,
   toBatterySummary,
+  toChargeSummary,
+  toChargingInvoiceSummary,
   toDriveSummary,
+  toDriverSummary,
+  toFleetRow,
+  toFreshness,
+  toFirmwareAlert,
+  toIdleSummary,
+  toInvitationSummary,
+  toLocationSummary,
+  toScheduleSummary,
+  toSoftwareUpdateSummary,
   toStateSummary,
+  toTelemetryConfigSummary,
+  toTelemetrySummary,
+  toTirePressureSummary,
   toVehicleListItem,
 } from "./mappers.ts";
 import {
   TessieBatteryState,
   TessieDrive,
+  TessiePathPoint,
   TessieVehicleState,
 } from "./types.ts";
 
@@ -21,6 +62,14 @@ export const configSchema = z.object({
     .string()
     .min(1)
     .describe("Tessie API access token from https://dash.tessie.com/settings/api"),
+  defaultVehicle: z
+    .string()
+    .optional()
+    .describe("VIN, plate or name used when a tool call omits the vehicle or asks for the default vehicle."),
+  auditLogPath: z
+    .string()
+    .optional()
+    .describe("JSONL file that records every vehicle command (default ~/.tessie-mcp/command-audit.jsonl)."),
 });
 
 export function getTool(server: McpServer, name: string) {
@@ -28,386 +77,118 @@ export function getTool(server: McpServer, name: string) {
   return (server as any)._registeredTools?.[name];
 }
 
-const VIN_REGEX = /^[A-HJ-NPR-Z0-9]{17}$/i;
-
-const operations = [
-  // Basic Vehicle Control
-  "lock",
-  "unlock",
-  "wake",
-  "flash_lights",
-  "honk",
-
-  // Trunk & Access
-  "activate_front_trunk",
-  "activate_rear_trunk",
-  "open_tonneau",
-  "close_tonneau",
-
-  // Windows & Sunroof
-  "vent_windows",
-  "close_windows",
-  "vent_sunroof",
-  "close_sunroof",
-
-  // Climate Control
-  "start_climate",
-  "stop_climate",
-  "set_temperature",
-  "set_seat_heating",
-  "set_seat_cooling",
-  "start_defrost",
-  "stop_defrost",
-  "start_steering_wheel_heater",
-  "stop_steering_wheel_heater",
-  "set_cabin_overheat_protection",
-  "set_cabin_overheat_protection_temp",
-  "set_bioweapon_mode",
-  "set_climate_keeper_mode",
-
-  // Charging
-  "start_charging",
-  "stop_charging",
-  "set_charge_limit",
-  "set_charging_amps",
-  "open_charge_port",
-  "close_charge_port",
-  "set_scheduled_charging",
-  "add_charge_schedule",
-  "remove_charge_schedule",
-
-  // Convenience & Features
-  "trigger_homelink",
-  "remote_start",
-  "remote_boombox",
-  "share",
-
-  // Security & Modes
-  "enable_sentry_mode",
-  "disable_sentry_mode",
-  "enable_valet_mode",
-  "disable_valet_mode",
-  "enable_guest_mode",
-  "disable_guest_mode",
-
-  // Speed Limiting
-  "set_speed_limit",
-  "enable_speed_limit",
-  "disable_speed_limit",
-  "clear_speed_limit_pin",
-
-  // Software Updates
-  "schedule_software_update",
-  "cancel_software_update",
-
-  // Scheduling & Departure
-  "set_scheduled_departure",
-  "add_precondition_schedule",
-  "remove_precondition_schedule",
-] as const;
-
-const SAFE_OPERATIONS: Operation[] = [
-  "flash_lights",
-  "honk",
-  "wake",
-  "activate_front_trunk",
-  "activate_rear_trunk",
-  "open_tonneau",
-  "close_tonneau",
-  "vent_windows",
-  "close_windows",
-  "vent_sunroof",
-  "close_sunroof",
-  "trigger_homelink",
-  "remote_boombox",
-];
+const vehicleSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .optional()
+  .describe(
+    'Vehicle VIN, VIN suffix (last 4+ characters), license plate, display name or "default vehicle". Omit to use the default or only vehicle.',
+  );
+
 const LIST_LIMIT = 12;
 const PATH_POINT_LIMIT = 200;
-
-type Operation = (typeof operations)[number];
-
-type CommandInput = {
-  vin: string;
-  operation: Operation;
-  params?: {
-    charge_limit_percent?: number;
-    charging_amps?: number;
-    cabin_temp_c?: number;
-    seat_position?: number;
-    seat_level?: number;
-    speed_limit_mph?: number;
-    speed_limit_pin?: string;
-    fan_only?: boolean;
-    cabin_overheat_on?: boolean;
-    cabin_overheat_temp_c?: number;
-    wait_for_completion?: boolean;
-    confirm?: boolean;
-  };
+const STATE_POINT_LIMIT = 100;
+const SENTRY_IDLE_THRESHOLD_PERCENT = 50;
+const DEGRADATION_OUTLIER_MARGIN = 2; // percentage points above the fleet average
+const MILEAGE_BUCKET_LIMIT = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRECONDITION_COLD_C = 5;
+const PRECONDITION_HOT_C = 28;
+const WAKE_POLICIES = ["never", "allow"] as const;
+const STATUS_GUIDANCE: Record<string, string> = {
+  asleep:
+    "The car is asleep. fetch_vehicle_state returns last-known data without waking it; use wake_policy allow only if live data is worth waking the car.",
+  waiting_for_sleep:
+    "The car is about to sleep. Avoid live reads unless needed; they reset its sleep timer.",
+  awake: "The car is awake; fetch_vehicle_state with wake_policy allow returns live data.",
 };
+const STALE_STATE_SECONDS = 15 * 60;
+const FLEET_CONCURRENCY = 4;
+const FLEET_LOW_BATTERY_PERCENT = 20;
+const ACCESS_ACTIONS = ["list", "create_invitation", "revoke_invitation", "delete_driver"] as const;
+const DESTRUCTIVE_ACCESS_ACTIONS: ReadonlyArray<(typeof ACCESS_ACTIONS)[number]> = ["revoke_invitation", "delete_driver"];
+const DEFAULT_WAKE_TIMEOUT_SECONDS = 60;
+const MAX_WAKE_TIMEOUT_SECONDS = 180;
+const DEFAULT_VERIFY_TIMEOUT_SECONDS = 20;
+const MAX_VERIFY_TIMEOUT_SECONDS = 120;
+const VERIFICATION_GUIDANCE = {
+  verified: "The vehicle state confirms the change.",
+  mismatch: "The vehicle answered but does not show the expected state; do not report success. Check verification.checks.",
+  timeout: "Could not read the vehicle state to confirm the change; do not report success until fetch_vehicle_state confirms it.",
+  skipped: "This operation has no verifiable state; check fetch_vehicle_state if needed.",
+} as const;
+const TELEMETRY_CONFIG_ACTIONS = ["get", "set", "delete"] as const;
+const TELEMETRY_MIN_INTERVAL_SECONDS = 1; // Tessie rejects custom configs faster than one signal per second
 
-const commandMap: Record<
-  CommandInput["operation"],
-  {
-    endpoint: string;
-    buildPayload?: (params?: CommandInput["params"]) => Record<string, unknown>;
-  }
-> = {
-  lock: { endpoint: "lock" },
-  unlock: { endpoint: "unlock" },
-  start_charging: { endpoint: "start_charging" },
-  stop_charging: { endpoint: "stop_charging" },
-  flash_lights: { endpoint: "flash" },
-  honk: { endpoint: "honk" },
-  wake: { endpoint: "wake" },
-  start_climate: { endpoint: "start_climate" },
-  stop_climate: { endpoint: "stop_climate" },
-  start_defrost: { endpoint: "start_max_defrost" },
-  stop_defrost: { endpoint: "stop_max_defrost" },
-  start_steering_wheel_heater: { endpoint: "start_steering_wheel_heater" },
-  stop_steering_wheel_heater: { endpoint: "stop_steering_wheel_heater" },
-  set_charge_limit: {
-    endpoint: "set_charge_limit",
-    buildPayload: (p) => ({
-      percent: p?.charge_limit_percent,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  set_charging_amps: {
-    endpoint: "set_charging_amps",
-    buildPayload: (p) => ({
-      amps: p?.charging_amps,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  set_temperature: {
-    endpoint: "set_temperature",
-    buildPayload: (p) => ({
-      temperature: p?.cabin_temp_c,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  set_seat_heating: {
-    endpoint: "set_seat_heat",
-    buildPayload: (p) => ({
-      seat: p?.seat_position,
-      level: p?.seat_level,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  set_seat_cooling: {
-    endpoint: "set_seat_cool",
-    buildPayload: (p) => ({
-      seat: p?.seat_position,
-      level: p?.seat_level,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  set_speed_limit: {
-    endpoint: "set_speed_limit",
-    buildPayload: (p) => ({
-      mph: p?.speed_limit_mph,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  enable_speed_limit: {
-    endpoint: "enable_speed_limit",
-    buildPayload: (p) => ({
-      pin: p?.speed_limit_pin,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  disable_speed_limit: {
-    endpoint: "disable_speed_limit",
-    buildPayload: (p) => ({
-      pin: p?.speed_limit_pin,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  clear_speed_limit_pin: {
-    endpoint: "clear_speed_limit_pin",
-    buildPayload: (p) => ({
-      pin: p?.speed_limit_pin,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  set_cabin_overheat_protection: {
-    endpoint: "set_cabin_overheat_protection",
-    buildPayload: (p) => ({
-      on: p?.cabin_overheat_on,
-      fan_only: p?.fan_only,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  set_cabin_overheat_protection_temp: {
-    endpoint: "set_cop_temp",
-    buildPayload: (p) => ({
-      cop_temp: p?.cabin_overheat_temp_c,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  enable_sentry_mode: { endpoint: "enable_sentry" },
-  disable_sentry_mode: { endpoint: "disable_sentry" },
-
-  // Trunk & Access
-  activate_front_trunk: { endpoint: "activate_front_trunk" },
-  activate_rear_trunk: { endpoint: "activate_rear_trunk" },
-  open_tonneau: { endpoint: "open_tonneau" },
-  close_tonneau: { endpoint: "close_tonneau" },
-
-  // Windows & Sunroof
-  vent_windows: { endpoint: "vent_windows" },
-  close_windows: { endpoint: "close_windows" },
-  vent_sunroof: { endpoint: "vent_sunroof" },
-  close_sunroof: { endpoint: "close_sunroof" },
-
-  // Charging (additional)
-  open_charge_port: { endpoint: "open_charge_port" },
-  close_charge_port: { endpoint: "close_charge_port" },
-  set_scheduled_charging: {
-    endpoint: "set_scheduled_charging",
-    buildPayload: (p) => ({
-      enable: p?.cabin_overheat_on,
-      time: p?.speed_limit_pin, // Reusing fields for flexibility
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  add_charge_schedule: {
-    endpoint: "add_charge_schedule",
-    buildPayload: (p) => ({
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  remove_charge_schedule: {
-    endpoint: "remove_charge_schedule",
-    buildPayload: (p) => ({
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-
-  // Climate (additional)
-  set_bioweapon_mode: {
-    endpoint: "set_bioweapon_mode",
-    buildPayload: (p) => ({
-      on: p?.cabin_overheat_on,
-      manual_override: false,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  set_climate_keeper_mode: {
-    endpoint: "set_climate_keeper_mode",
-    buildPayload: (p) => ({
-      mode: p?.seat_level ?? 0, // 0=off, 1=keep, 2=dog, 3=camp
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-
-  // Convenience & Features
-  trigger_homelink: { endpoint: "trigger_homelink" },
-  remote_start: { endpoint: "remote_start" },
-  remote_boombox: { endpoint: "remote_boombox" },
-  share: {
-    endpoint: "share",
-    buildPayload: (p) => ({
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-
-  // Security & Modes
-  enable_valet_mode: {
-    endpoint: "enable_valet",
-    buildPayload: (p) => ({
-      pin: p?.speed_limit_pin,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  disable_valet_mode: {
-    endpoint: "disable_valet",
-    buildPayload: (p) => ({
-      pin: p?.speed_limit_pin,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  enable_guest_mode: { endpoint: "enable_guest" },
-  disable_guest_mode: { endpoint: "disable_guest" },
-
-  // Software Updates
-  schedule_software_update: {
-    endpoint: "schedule_software_update",
-    buildPayload: (p) => ({
-      offset: p?.charging_amps ?? 0,
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  cancel_software_update: { endpoint: "cancel_software_update" },
-
-  // Scheduling & Departure
-  set_scheduled_departure: {
-    endpoint: "set_scheduled_departure",
-    buildPayload: (p) => ({
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  add_precondition_schedule: {
-    endpoint: "add_precondition_schedule",
-    buildPayload: (p) => ({
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-  remove_precondition_schedule: {
-    endpoint: "remove_precondition_schedule",
-    buildPayload: (p) => ({
-      wait_for_completion: p?.wait_for_completion ?? true,
-    }),
-  },
-};
+const telemetryFieldSchema = z
+  .object({
+    interval_seconds: z.number().int().min(TELEMETRY_MIN_INTERVAL_SECONDS).describe("Seconds between signals (minimum 1)."),
+    minimum_delta: z.number().positive().optional().describe("Only send when the value changes by at least this much."),
+    resend_interval_seconds: z.number().int().min(TELEMETRY_MIN_INTERVAL_SECONDS).optional(),
+  })
+  .strict();
 
-function ensurePositive(value: number | undefined, name: string) {
-  if (value === undefined || Number.isNaN(value) || value <= 0) {
-    throw new Error(`Missing or invalid ${name}`);
-  }
-}
+const telemetryFieldsSchema = z
+  .record(z.string(), telemetryFieldSchema)
+  .superRefine((fields, ctx) => {
+    const invalid = Object.keys(fields).filter((name) => !TELEMETRY_FIELD_NAME_REGEX.test(name));
+    if (invalid.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid Fleet Telemetry field name(s): ${invalid.join(", ")}. Use the case-sensitive PascalCase names from vehicle_data.proto (e.g. Soc, VehicleSpeed, Location).`,
+      });
+    }
+    if (Object.keys(fields).length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "fields must not be empty; omit it to apply the recommended config" });
+    }
+  })
+  .optional()
+  .describe(
+    "Custom config keyed by Fleet Telemetry field name (e.g. {\"Soc\": {\"interval_seconds\": 60}}). Omit to apply Tessie's recommended config.",
+  );
 
-function ensureNumberProvided(
-  value: number | undefined,
-  name: string,
-  allowZero = false,
-) {
-  if (value === undefined || Number.isNaN(value) || (!allowZero && value <= 0)) {
-    throw new Error(`Missing or invalid ${name}`);
-  }
-}
+const wakePolicySchema = z
+  .enum(WAKE_POLICIES)
+  .optional()
+  .default("never")
+  .describe("never (default): Tessie's last-known state, never wakes the car. allow: live read that may wake it.");
 
-function ensureNonEmptyString(value: string | undefined, name: string) {
-  if (!value || !value.trim()) {
-    throw new Error(`Missing or invalid ${name}`);
-  }
-}
-
-function ensureRange(
-  value: number | undefined,
-  name: string,
-  min: number,
-  max: number,
+/**
+ * Forwards wake phases as MCP progress notifications when the caller sent a progress token.
+ */
+function wakeProgressNotifier(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification> | undefined,
+  totalMs: number,
 ) {
-  if (value === undefined || Number.isNaN(value) || value < min || value > max) {
-    throw new Error(`Missing or invalid ${name} (expected ${min}-${max})`);
-  }
-}
-
-function ensureBoolean(value: boolean | undefined, name: string) {
-  if (value === undefined || typeof value !== "boolean") {
-    throw new Error(`Missing or invalid ${name}`);
-  }
+  const progressToken = extra?._meta?.progressToken;
+  if (progressToken === undefined || !extra) return undefined;
+  return async (phase: WakePhase) => {
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: phase.phase === "online" ? totalMs : Math.min(phase.elapsed_ms, totalMs),
+        total: totalMs,
+        message: `${phase.phase}${phase.status ? `: ${phase.status}` : ""}`,
+      },
+    });
+  };
 }
 
 export default function createServer({
   config,
   client: clientOverride,
+  telemetry: telemetryOverride,
+  auditLog: auditLogOverride,
 }: {
   config: z.infer<typeof configSchema>;
   client?: TessieClient;
+  telemetry?: TelemetryStream;
+  auditLog?: CommandAuditLog;
 }) {
   const apiKey = config?.accessToken?.trim();
+  const defaultVehicle = config?.defaultVehicle?.trim() || undefined;
   const server = new McpServer({
     name: "tessie-mcp-server",
     title: "Tessie Vehicle Data (v2)",
@@ -421,6 +202,54 @@ export default function createServer({
     throw new Error("TESSIE_API_KEY is required to call Tessie APIs.");
   };
 
+  const telemetry = telemetryOverride ?? (apiKey ? new TelemetryStream(apiKey) : null);
+
+  const auditLog = auditLogOverride ?? new CommandAuditLog(config?.auditLogPath?.trim() || undefined);
+
+  // the vehicle list can omit plates; fill them from the cached per-vehicle plate lookup
+  const withPlates = async <T extends { vin: string; plate?: string | null }>(vehicles: T[]) => {
+    const activeClient = requireClient();
+    const missing = vehicles.filter((vehicle) => !vehicle.plate);
+    if (missing.length === 0) return vehicles;
+    const plates = await mapWithConcurrency(missing, FLEET_CONCURRENCY, (vehicle) =>
+      activeClient.getPlate(vehicle.vin).catch(() => undefined),
+    );
+    return vehicles.map((vehicle) => {
+      const index = missing.indexOf(vehicle);
+      return index >= 0 && plates[index] ? { ...vehicle, plate: plates[index] } : vehicle;
+    });
+  };
+
+  const resolveVin = async (reference?: string) => {
+    if (reference && VIN_REGEX.test(reference)) return reference;
+    const activeClient = requireClient();
+    const vehicles = await activeClient.listVehicles();
+    try {
+      return resolveVehicle(vehicles, reference, { defaultVehicle }).vin;
+    } catch (error) {
+      // look up missing plates before reporting that nothing matched
+      const completed = await withPlates(vehicles);
+      if (completed === vehicles) throw error;
+      return resolveVehicle(completed, reference, { defaultVehicle }).vin;
+    }
+  };
+
+  const freshnessFor = (state: TessieVehicleState, live: boolean) => {
+    const freshness = toFreshness(state?.timestamp, { live, vehicleState: state?.state });
+    return {
+      ...freshness,
+      guidance:
+        !live && (freshness.age_seconds ?? 0) > STALE_STATE_SECONDS
+          ? "Data is from Tessie's cache; pass wake_policy: allow for a live read (this may wake the vehicle)."
+          : undefined,
+    };
+  };
+
+  const requireTelemetry = () => {
+    if (telemetry) return telemetry;
+    throw new Error("TESSIE_API_KEY is required to stream Fleet Telemetry.");
+  };
+
   server.tool(
     "get_active_context",
     "Quick context: vehicles you can access plus next-step guidance.",
@@ -430,13 +259,13 @@ export default function createServer({
     async ({ only_active }) => {
       try {
         const activeClient = requireClient();
-        const vehicles = await activeClient.listVehicles({ onlyActive: only_active });
+        const vehicles = await withPlates(await activeClient.listVehicles({ onlyActive: only_active }));
         const items = vehicles.map((v) => toVehicleListItem(v));
 
         return wrapContent({
           vehicles: summarizeList(items, LIST_LIMIT),
           next_steps: [
-            "Use fetch_vehicle_state to inspect a specific VIN.",
+            "Use fetch_vehicle_state to inspect a specific vehicle; tools accept a VIN, license plate or display name.",
             "Use manage_vehicle_command to act safely with confirmation.",
             "Use search_drives to pull recent driving history.",
           ],
@@ -447,20 +276,120 @@ export default function createServer({
     },
   );
 
+  server.tool(
+    "fleet_overview",
+    "One row per vehicle (battery, range, locked, sentry, charging, location, last seen) plus fleet-wide flags. Uses last-known data and never wakes vehicles.",
+    {
+      only_active: z.boolean().optional().describe("Only include vehicles with an active status."),
+    },
+    async ({ only_active }) => {
+      try {
+        const activeClient = requireClient();
+        const vehicles = await activeClient.listVehicles({ onlyActive: only_active });
+        const rows = await mapWithConcurrency(vehicles, FLEET_CONCURRENCY, async (vehicle) => {
+          try {
+            const [state, location] = await Promise.all([
+              activeClient.getVehicleState(vehicle.vin, { useCache: true }),
+              activeClient.getLocation(vehicle.vin).catch(() => undefined),
+            ]);
+            return toFleetRow(vehicle, state, location);
+          } catch (error) {
+            return { ...toFleetRow(vehicle), error: toMcpError(error, "fleet_overview").message };
+          }
+        });
+
+        const count = (predicate: (row: (typeof rows)[number]) => boolean) => rows.filter(predicate).length;
+        const plural = (n: number) => (n === 1 ? "car" : "cars");
+        const unlocked = count((row) => row.locked === false);
+        const lowBattery = count(
+          (row) => row.battery_level !== undefined && row.battery_level < FLEET_LOW_BATTERY_PERCENT,
+        );
+        const charging = count((row) => row.charging_state === "Charging");
+        const failed = count((row) => "error" in row);
+        const flags = [
+          unlocked ? `${unlocked} ${plural(unlocked)} unlocked` : undefined,
+          lowBattery ? `${lowBattery} below ${FLEET_LOW_BATTERY_PERCENT}%` : undefined,
+          charging ? `${charging} ${plural(charging)} charging` : undefined,
+          failed ? `${failed} ${plural(failed)} without data` : undefined,
+        ].filter((flag): flag is string => Boolean(flag));
+
+        return wrapContent({
+          vehicles: rows.length,
+          flags,
+          rows: summarizeList(rows, LIST_LIMIT),
+          note: "Rows use Tessie's last-known state; asleep vehicles are not woken.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "fleet_overview"));
+      }
+    },
+  );
+
+  server.tool(
+    "set_license_plate",
+    "Set the license plate stored for a vehicle so it can be referred to by plate.",
+    {
+      vin: vehicleSchema,
+      plate: z.string().trim().min(1).max(16).describe("License plate as printed on the vehicle."),
+    },
+    async ({ vin: vehicle, plate }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const result = await activeClient.setPlate(vin, plate);
+        return wrapContent({
+          vin,
+          plate,
+          result,
+          guidance: "get_active_context lists the updated plate.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "set_license_plate"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_vehicle_status",
+    "Lightweight sleep status (asleep, waiting_for_sleep or awake) without fetching full state. Never wakes the car; check this before fetch_vehicle_state.",
+    {
+      vin: vehicleSchema,
+    },
+    async ({ vin: vehicle }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const { status } = await activeClient.getStatus(vin);
+        return wrapContent({
+          vin,
+          status: status ?? "unknown",
+          awake: status === "awake",
+          guidance: (status && STATUS_GUIDANCE[status]) ?? "Status unavailable; fetch_vehicle_state returns last-known data.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_vehicle_status"));
+      }
+    },
+  );
+
   server.tool(
     "fetch_vehicle_state",
-    "Fetch the latest vehicle state (location, climate, locks, battery snapshot).",
+    "Fetch the latest vehicle state (location, climate, locks, battery snapshot). Uses last-known data unless wake_policy is allow.",
     {
-      vin: z.string().regex(VIN_REGEX, "VIN must be 17 alphanumeric characters (no I/O/Q).").describe("Vehicle VIN."),
+      vin: vehicleSchema,
+      wake_policy: wakePolicySchema,
     },
-    async ({ vin }) => {
+    async ({ vin: vehicle, wake_policy = "never" }) => {
       try {
         const activeClient = requireClient();
-        const state: TessieVehicleState = await activeClient.getVehicleState(vin);
+        const vin = await resolveVin(vehicle);
+        const live = wake_policy === "allow";
+        const state: TessieVehicleState = await activeClient.getVehicleState(vin, { useCache: !live });
         const summary = toStateSummary(vin, state);
 
         return wrapContent({
           summary,
+          freshness: freshnessFor(state, live),
           raw_state: state,
         });
       } catch (error) {
@@ -471,16 +400,18 @@ export default function createServer({
 
   server.tool(
     "fetch_vehicle_battery",
-    "Fetch battery and charging details for a vehicle.",
+    "Fetch battery and charging details for a vehicle (last-known data; never wakes the car).",
     {
-      vin: z.string().regex(VIN_REGEX, "VIN must be 17 alphanumeric characters (no I/O/Q).").describe("Vehicle VIN."),
+      vin: vehicleSchema,
     },
-    async ({ vin }) => {
+    async ({ vin: vehicle }) => {
       try {
         const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
         const battery: TessieBatteryState = await activeClient.getVehicleBattery(vin);
         return wrapContent({
           summary: toBatterySummary(vin, battery),
+          freshness: toFreshness(battery?.timestamp),
           battery,
         });
       } catch (error) {
@@ -489,18 +420,145 @@ export default function createServer({
     },
   );
 
+  server.tool(
+    "get_software_update_status",
+    "Pending software update (version, download/install progress, schedule), recent firmware alerts and whether to install now.",
+    {
+      vin: vehicleSchema,
+      wake_policy: wakePolicySchema,
+    },
+    async ({ vin: vehicle, wake_policy = "never" }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const live = wake_policy === "allow";
+        const [state, alerts] = await Promise.all([
+          activeClient.getVehicleState(vin, { useCache: !live }),
+          activeClient.getFirmwareAlerts(vin),
+        ]);
+
+        return wrapContent({
+          ...toSoftwareUpdateSummary(vin, state),
+          freshness: freshnessFor(state, live),
+          firmware_alerts: summarizeList(
+            alerts.map((alert) => toFirmwareAlert(alert)),
+            LIST_LIMIT,
+          ),
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_software_update_status"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_battery_health",
+    "Compare battery health across all vehicles (max range vs. original, degradation) and flag packs degrading faster than the fleet.",
+    {
+      only_active: z.boolean().optional().describe("Only include vehicles with an active status."),
+    },
+    async ({ only_active }) => {
+      try {
+        const activeClient = requireClient();
+        const healths = await activeClient.getBatteryHealth({ onlyActive: only_active });
+        const rows = healths.map((health) => toBatteryHealthSummary(health.vin ?? "", health));
+        const measured = rows
+          .map((row) => row.degradation_percent)
+          .filter((value): value is number => typeof value === "number");
+        const fleetAverage = measured.length
+          ? roundTo(measured.reduce((sum, value) => sum + value, 0) / measured.length)
+          : undefined;
+        const flagged = rows
+          .map((row) => ({
+            ...row,
+            faster_than_fleet:
+              fleetAverage !== undefined &&
+              row.degradation_percent !== undefined &&
+              row.degradation_percent > fleetAverage + DEGRADATION_OUTLIER_MARGIN,
+          }))
+          .sort((a, b) => (b.degradation_percent ?? -Infinity) - (a.degradation_percent ?? -Infinity));
+
+        return wrapContent({
+          fleet_average_degradation_percent: fleetAverage,
+          outliers: flagged.filter((row) => row.faster_than_fleet).map((row) => row.vin),
+          vehicles: summarizeList(flagged, LIST_LIMIT),
+          note: `Outliers exceed the fleet average by more than ${DEGRADATION_OUTLIER_MARGIN} percentage points. Use get_battery_health_history for a per-vehicle trend.`,
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_battery_health"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_battery_health_history",
+    "Battery health for one vehicle: current vs. original max range, degradation and trend over measurements.",
+    {
+      vin: vehicleSchema,
+      start: z.string().optional().describe("ISO 8601 start timestamp."),
+      end: z.string().optional().describe("ISO 8601 end timestamp."),
+    },
+    async ({ vin: vehicle, start, end }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const measurements = await activeClient.getBatteryHealthMeasurements(vin, { start, end });
+        return wrapContent({
+          summary: toBatteryHealthSummary(vin, measurements.result, measurements.results),
+          measurements: summarizeList(
+            measurements.results.map((m) => ({
+              timestamp: m.timestamp,
+              odometer: m.odometer,
+              max_range: m.max_range,
+              capacity: m.capacity,
+            })),
+            PATH_POINT_LIMIT,
+          ),
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_battery_health_history"));
+      }
+    },
+  );
+
+  server.tool(
+    "list_vehicle_schedules",
+    "List charge and preconditioning schedules stored on the vehicle (plus legacy scheduled charging/departure). Check before adding or removing schedules.",
+    {
+      vin: vehicleSchema,
+      wake_policy: wakePolicySchema,
+    },
+    async ({ vin: vehicle, wake_policy = "never" }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const live = wake_policy === "allow";
+        const state: TessieVehicleState = await activeClient.getVehicleState(vin, { useCache: !live });
+        return wrapContent({
+          ...toScheduleSummary(vin, state),
+          freshness: freshnessFor(state, live),
+          guidance:
+            "Use manage_vehicle_command with add_charge_schedule/add_precondition_schedule (pass schedule_id to update) or remove_charge_schedule/remove_precondition_schedule.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "list_vehicle_schedules"));
+      }
+    },
+  );
+
   server.tool(
     "search_drives",
     "List recent drives for a vehicle (summary-first with optional date range).",
     {
-      vin: z.string().regex(VIN_REGEX, "VIN must be 17 alphanumeric characters (no I/O/Q).").describe("Vehicle VIN."),
+      vin: vehicleSchema,
       start: z.string().optional().describe("ISO 8601 start timestamp."),
       end: z.string().optional().describe("ISO 8601 end timestamp."),
       limit: z.number().int().positive().optional().default(20),
     },
-    async ({ vin, start, end, limit = 20 }) => {
+    async ({ vin: vehicle, start, end, limit = 20 }) => {
       try {
         const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
         const drives: TessieDrive[] = await activeClient.getDrives(vin, { start, end, limit });
         const summaries = drives.map((drive) => toDriveSummary(drive));
 
@@ -515,21 +573,488 @@ export default function createServer({
     },
   );
 
+  server.tool(
+    "search_charges",
+    "List charging sessions for a vehicle (summary-first with totals split by Supercharger vs. other).",
+    {
+      vin: vehicleSchema,
+      start: z.string().optional().describe("ISO 8601 start timestamp."),
+      end: z.string().optional().describe("ISO 8601 end timestamp."),
+      limit: z.number().int().positive().optional().default(20).describe("Sessions to list (totals cover all)."),
+      superchargers_only: z.boolean().optional().describe("Only include Supercharger sessions."),
+    },
+    async ({ vin: vehicle, start, end, limit = 20, superchargers_only }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const { charges, truncated } = await activeClient.getAllCharges(vin, {
+          start,
+          end,
+          superchargersOnly: superchargers_only,
+        });
+        const summaries = charges.map((charge) => toChargeSummary(charge));
+        const totals = {
+          supercharger: { sessions: 0, energy_added_kwh: 0, cost: 0 },
+          other: { sessions: 0, energy_added_kwh: 0, cost: 0 },
+        };
+        for (const charge of summaries) {
+          const bucket = charge.supercharger ? totals.supercharger : totals.other;
+          bucket.sessions += 1;
+          bucket.energy_added_kwh += charge.energy_added_kwh ?? 0;
+          bucket.cost += charge.cost ?? 0;
+        }
+        for (const bucket of [totals.supercharger, totals.other]) {
+          bucket.energy_added_kwh = roundTo(bucket.energy_added_kwh);
+          bucket.cost = roundTo(bucket.cost);
+        }
+
+        return wrapContent({
+          vin,
+          totals,
+          truncated,
+          charges: summarizeList(summaries, limit),
+          note: truncated
+            ? "Charge history exceeded the paging cap; totals cover only the most recent sessions. Narrow the date range for complete totals."
+            : "Costs are reported in the account currency; sessions without a recorded cost count as 0.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "search_charges"));
+      }
+    },
+  );
+
+  server.tool(
+    "set_charge_cost",
+    "Correct the recorded cost of a charging session (e.g. a home charge) by charge ID from search_charges.",
+    {
+      vin: vehicleSchema,
+      charge_id: z.union([z.number().int().positive(), z.string().min(1)]).describe("Charge ID from search_charges."),
+      cost: z.number().min(0).describe("Total cost of the session in the account currency."),
+    },
+    async ({ vin: vehicle, charge_id, cost }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const result = await activeClient.setChargeCost(vin, charge_id, cost);
+        return wrapContent({
+          vin,
+          charge_id,
+          cost,
+          result,
+          guidance: "search_charges reflects the new cost in its totals.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "set_charge_cost"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_charging_invoices",
+    "Supercharger invoices for all vehicles over a period with totals by vehicle and currency (fleet accounts only).",
+    {
+      start: z.string().optional().describe("ISO 8601 start timestamp."),
+      end: z.string().optional().describe("ISO 8601 end timestamp."),
+      timezone: z
+        .string()
+        .optional()
+        .refine((value) => value === undefined || isValidTimeZone(value), "timezone must be an IANA time zone.")
+        .describe("IANA time zone for invoice dates."),
+      limit: z.number().int().positive().optional().default(20).describe("Invoices to list (totals cover all)."),
+    },
+    async ({ start, end, timezone, limit = 20 }) => {
+      try {
+        const activeClient = requireClient();
+        const invoices = await activeClient.getChargingInvoices({ start, end, timezone });
+        const summaries = invoices.map((invoice) => toChargingInvoiceSummary(invoice));
+        const totals = new Map<string, { vin?: string; currency?: string; invoices: number; energy_kwh: number; cost: number }>();
+        for (const invoice of summaries) {
+          const key = `${invoice.vin ?? "unknown"}:${invoice.currency ?? "unknown"}`;
+          const bucket = totals.get(key) ?? {
+            vin: invoice.vin,
+            currency: invoice.currency,
+            invoices: 0,
+            energy_kwh: 0,
+            cost: 0,
+          };
+          bucket.invoices += 1;
+          bucket.energy_kwh += invoice.energy_kwh ?? 0;
+          bucket.cost += invoice.cost ?? 0;
+          totals.set(key, bucket);
+        }
+        const byCurrency = new Map<string, number>();
+        for (const bucket of totals.values()) {
+          const currency = bucket.currency ?? "unknown";
+          byCurrency.set(currency, (byCurrency.get(currency) ?? 0) + bucket.cost);
+        }
+
+        return wrapContent({
+          totals_by_vehicle: Array.from(totals.values()).map((bucket) => ({
+            ...bucket,
+            energy_kwh: roundTo(bucket.energy_kwh),
+            cost: roundTo(bucket.cost),
+          })),
+          totals_by_currency: Array.from(byCurrency.entries()).map(([currency, cost]) => ({
+            currency,
+            cost: roundTo(cost),
+          })),
+          invoices: summarizeList(summaries, limit),
+          note: "Invoices cover Supercharger sessions; home charging costs live on search_charges (see set_charge_cost).",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_charging_invoices"));
+      }
+    },
+  );
+
+  server.tool(
+    "search_idles",
+    "Parked (idle) periods with battery lost, hours parked, sentry/climate usage and drain per day.",
+    {
+      vin: vehicleSchema,
+      start: z.string().optional().describe("ISO 8601 start timestamp."),
+      end: z.string().optional().describe("ISO 8601 end timestamp."),
+      limit: z.number().int().positive().optional().default(20),
+    },
+    async ({ vin: vehicle, start, end, limit = 20 }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const [idles, lastIdleState] = await Promise.all([
+          activeClient.getIdles(vin, { start, end, limit }),
+          activeClient.getLastIdleState(vin),
+        ]);
+        const summaries = idles.map((idle) => toIdleSummary(idle));
+        const drainFor = (items: typeof summaries) => {
+          const measured = items.filter((item) => item.battery_lost_percent !== undefined && item.hours_parked);
+          const lost = measured.reduce((sum, item) => sum + (item.battery_lost_percent ?? 0), 0);
+          const hours = measured.reduce((sum, item) => sum + (item.hours_parked ?? 0), 0);
+          return {
+            idles: measured.length,
+            hours_parked: roundTo(hours),
+            battery_lost_percent: roundTo(lost),
+            drain_percent_per_day: hours ? roundTo((lost / hours) * 24) : undefined,
+          };
+        };
+        const withSentry = summaries.filter(
+          (item) => (item.sentry_percent_of_time ?? 0) >= SENTRY_IDLE_THRESHOLD_PERCENT,
+        );
+        const withoutSentry = summaries.filter(
+          (item) => (item.sentry_percent_of_time ?? 0) < SENTRY_IDLE_THRESHOLD_PERCENT,
+        );
+
+        return wrapContent({
+          vin,
+          drain: {
+            overall: drainFor(summaries),
+            sentry_mostly_on: drainFor(withSentry),
+            sentry_mostly_off: drainFor(withoutSentry),
+          },
+          last_idle_state: toStateSummary(vin, lastIdleState),
+          idles: summarizeList(summaries, limit),
+          note: `Idles count as sentry_mostly_on when Sentry Mode ran for at least ${SENTRY_IDLE_THRESHOLD_PERCENT}% of the parked time.`,
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "search_idles"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_efficiency_report",
+    "Efficiency analytics (Wh/mi) per drive and per day, by outside temperature, best/worst trips and consumption since the last charge.",
+    {
+      vin: vehicleSchema,
+      start: z.string().optional().describe("ISO 8601 start timestamp."),
+      end: z.string().optional().describe("ISO 8601 end timestamp."),
+      timezone: z
+        .string()
+        .optional()
+        .default("UTC")
+        .refine(isValidTimeZone, "timezone must be an IANA time zone such as America/Los_Angeles.")
+        .describe("IANA time zone used to assign drives to days."),
+    },
+    async ({ vin: vehicle, start, end, timezone = "UTC" }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const [{ drives, truncated }, consumption] = await Promise.all([
+          activeClient.getAllDrives(vin, { start, end }),
+          activeClient.getConsumption(vin),
+        ]);
+        const report = buildEfficiencyReport(drives, consumption, timezone);
+
+        return wrapContent({
+          vin,
+          timezone,
+          ...report,
+          truncated,
+          note: truncated
+            ? "Drive history exceeded the paging cap; the report covers only the most recent drives. Narrow the date range for a complete report."
+            : "Drives shorter than 1 mile or without energy data are excluded. Days are in the requested time zone; temperatures are the drive's average outside temperature.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_efficiency_report"));
+      }
+    },
+  );
+
+  server.tool(
+    "summarize_mileage",
+    "Mileage totals (distance, energy, drive count) per day, week or month over every drive in a range (for expense reports).",
+    {
+      vin: vehicleSchema,
+      start: z.string().optional().describe("ISO 8601 start timestamp."),
+      end: z.string().optional().describe("ISO 8601 end timestamp."),
+      period: z.enum(mileagePeriods).optional().default("month").describe("Bucket size; weeks start on Monday."),
+      timezone: z
+        .string()
+        .optional()
+        .default("UTC")
+        .refine(isValidTimeZone, "timezone must be an IANA time zone such as America/Los_Angeles.")
+        .describe("IANA time zone used to assign drives to calendar buckets."),
+    },
+    async ({ vin: vehicle, start, end, period = "month", timezone = "UTC" }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const { drives, truncated } = await activeClient.getAllDrives(vin, { start, end });
+        const summary = buildMileageSummary(drives, period, timezone);
+
+        return wrapContent({
+          vin,
+          period,
+          timezone,
+          totals: summary.totals,
+          buckets: summarizeList(summary.buckets, MILEAGE_BUCKET_LIMIT),
+          truncated,
+          note: truncated
+            ? "Drive history exceeded the paging cap; narrow the date range for complete totals."
+            : "Drives are bucketed by their start time in the requested time zone.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "summarize_mileage"));
+      }
+    },
+  );
+
+  server.tool(
+    "tag_drives",
+    "Set a tag (e.g. business, personal) on one or more drives by ID.",
+    {
+      vin: vehicleSchema,
+      drive_ids: z
+        .array(z.union([z.number().int().positive(), z.string().min(1)]))
+        .min(1)
+        .max(100)
+        .describe("Drive IDs from search_drives."),
+      tag: z.string().trim().min(1).max(50).describe("Tag to apply, such as business or personal."),
+    },
+    async ({ vin: vehicle, drive_ids, tag }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const result = await activeClient.setDriveTag(vin, drive_ids, tag);
+        return wrapContent({
+          vin,
+          tag,
+          drive_ids,
+          result,
+          guidance: "Use generate_trip_log to export tagged drives.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "tag_drives"));
+      }
+    },
+  );
+
+  server.tool(
+    "generate_trip_log",
+    "Export tagged drives (date, from, to, distance, odometer start/end, purpose) as CSV or JSON for mileage reimbursement.",
+    {
+      vin: vehicleSchema,
+      start: z.string().optional().describe("ISO 8601 start timestamp."),
+      end: z.string().optional().describe("ISO 8601 end timestamp."),
+      tag: z.string().optional().describe("Only include drives with this tag (default: every tagged drive)."),
+      format: z.enum(["csv", "json"]).optional().default("csv"),
+      timezone: z
+        .string()
+        .optional()
+        .default("UTC")
+        .refine(isValidTimeZone, "timezone must be an IANA time zone such as America/Los_Angeles.")
+        .describe("IANA time zone used for the date column."),
+    },
+    async ({ vin: vehicle, start, end, tag, format = "csv", timezone = "UTC" }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const { drives, truncated } = await activeClient.getAllDrives(vin, { start, end });
+        const log = buildTripLog(drives, { tag, timeZone: timezone });
+
+        return wrapContent({
+          vin,
+          format,
+          timezone,
+          entries_count: log.entries.length,
+          totals_by_purpose: log.totals_by_purpose,
+          ...(format === "csv" ? { csv: toCsv(log.entries, tripLogColumns) } : { entries: log.entries }),
+          truncated,
+          note: "Only tagged drives are included; use tag_drives to classify drives first.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "generate_trip_log"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_vehicle_location",
+    "Where the vehicle is (street address, saved location name, coordinates) plus current weather there, with a preconditioning hint.",
+    {
+      vin: vehicleSchema,
+    },
+    async ({ vin: vehicle }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const [location, weather] = await Promise.all([activeClient.getLocation(vin), activeClient.getWeather(vin)]);
+        const summary = toLocationSummary(vin, location, weather);
+        const feelsLike = summary.weather?.feels_like_c ?? summary.weather?.temperature_c;
+        const preconditionRecommended =
+          feelsLike !== undefined ? feelsLike <= PRECONDITION_COLD_C || feelsLike >= PRECONDITION_HOT_C : undefined;
+
+        return wrapContent({
+          ...summary,
+          precondition_recommended: preconditionRecommended,
+          guidance: preconditionRecommended
+            ? "Outside temperature is outside the comfortable range; consider manage_vehicle_command start_climate before departure."
+            : `Preconditioning is suggested at or below ${PRECONDITION_COLD_C}°C or at or above ${PRECONDITION_HOT_C}°C feels-like.`,
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_vehicle_location"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_vehicle_map",
+    "Map image (MCP image content) of the vehicle's current location, or of a drive's path when start/end are given (e.g. a drive's started_at/ended_at from search_drives).",
+    {
+      vin: vehicleSchema,
+      start: z
+        .string()
+        .optional()
+        .describe("ISO 8601 or unix-seconds start of the drive to map. With end, maps the path instead of the current location."),
+      end: z.string().optional().describe("ISO 8601 or unix-seconds end of the drive to map."),
+      width: z.number().int().min(100).max(1280).optional().describe("Image width in pixels."),
+      height: z.number().int().min(100).max(1280).optional().describe("Image height in pixels."),
+      zoom: z.number().int().min(1).max(20).optional().describe("Map zoom level (current location only)."),
+      marker_size: z.number().int().positive().optional().describe("Vehicle marker size in pixels (current location only)."),
+      style: z.string().optional().describe("Map style passed through to Tessie (current location only)."),
+    },
+    async ({ vin: vehicle, start, end, width, height, zoom, marker_size, style }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        if (start || end) {
+          const path = await activeClient.getDrivingPath(vin, { start, end });
+          const points = path
+            .filter((point): point is TessiePathPoint & PathPoint =>
+              Number.isFinite(point.latitude) && Number.isFinite(point.longitude),
+            )
+            .map(({ latitude, longitude }) => ({ latitude, longitude }));
+          if (points.length === 0) {
+            return wrapContent({ vin, start, end, point_count: 0, note: "No driving path was recorded in that range." });
+          }
+          const image = renderPathMap(points, { width, height });
+          return wrapContent(
+            {
+              vin,
+              start,
+              end,
+              point_count: points.length,
+              start_point: points[0],
+              end_point: points[points.length - 1],
+              mime_type: image.mimeType,
+              note: "The drive path image follows as an image content part (green start, red end; no basemap).",
+            },
+            [image],
+          );
+        }
+        const image = await activeClient.getMap(vin, { width, height, zoom, markerSize: marker_size, style });
+        return wrapContent(
+          {
+            vin,
+            mime_type: image.mimeType,
+            note: "The map image follows as an image content part.",
+          },
+          [image],
+        );
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_vehicle_map"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_tire_pressure",
+    "Tire pressure per corner in PSI and bar with low/high threshold checks and slow-leak detection against recent readings.",
+    {
+      vin: vehicleSchema,
+      low_psi: z.number().positive().optional().default(36).describe("Flag corners below this pressure."),
+      high_psi: z.number().positive().optional().default(48).describe("Flag corners above this pressure."),
+      slow_leak_drop_psi: z
+        .number()
+        .positive()
+        .optional()
+        .default(3)
+        .describe("Flag a corner that dropped this much below its recent median (beyond the other corners)."),
+      lookback_days: z.number().int().min(1).max(30).optional().default(7).describe("Days of readings used as the baseline."),
+    },
+    async ({ vin: vehicle, low_psi = 36, high_psi = 48, slow_leak_drop_psi = 3, lookback_days = 7 }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+        const now = Date.now();
+        const readings = await activeClient.getTirePressure(vin, {
+          start: new Date(now - lookback_days * DAY_MS).toISOString(),
+          end: new Date(now).toISOString(),
+        });
+        const summary = toTirePressureSummary(vin, readings, {
+          lowPsi: low_psi,
+          highPsi: high_psi,
+          leakDropPsi: slow_leak_drop_psi,
+        });
+
+        return wrapContent({
+          ...summary,
+          note:
+            summary.history_readings === 0
+              ? "No earlier readings in the lookback window; slow-leak detection needs history."
+              : "Pressures vary with tire temperature; compare cold readings where possible.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_tire_pressure"));
+      }
+    },
+  );
+
   server.tool(
     "get_driving_path",
     "Get driving path coordinates for a vehicle over a timeframe.",
     {
-      vin: z.string().regex(VIN_REGEX, "VIN must be 17 alphanumeric characters (no I/O/Q).").describe("Vehicle VIN."),
+      vin: vehicleSchema,
       start: z.string().optional().describe("ISO 8601 start timestamp."),
       end: z.string().optional().describe("ISO 8601 end timestamp."),
     },
-    async ({ vin, start, end }) => {
+    async ({ vin: vehicle, start, end }) => {
       try {
         const activeClient = requireClient();
-        const path: any[] = await activeClient.getDrivingPath(vin, { start, end });
+        const vin = await resolveVin(vehicle);
+        const path = await activeClient.getDrivingPath(vin, { start, end });
         return wrapContent({
           vin,
-          points: summarizeList(path, PATH_POINT_LIMIT),
+          points: summarizeList(path.map((point) => ({ ...point })), PATH_POINT_LIMIT),
           guidance: "Use this polyline for mapping or anomaly detection.",
         });
       } catch (error) {
@@ -539,101 +1064,418 @@ export default function createServer({
   );
 
   server.tool(
-    "manage_vehicle_command",
-    "Composite command executor for Tessie vehicle actions (lock, charging, climate, speed limit, sentry). Speed limit PIN is sensitive—avoid logging or sharing it.",
+    "get_historical_states",
+    "Downsampled time series of past vehicle states (battery, range, temperatures, odometer, location).",
     {
-      vin: z.string().regex(VIN_REGEX, "VIN must be 17 alphanumeric characters (no I/O/Q).").describe("Vehicle VIN."),
-      operation: z.enum(operations),
-      params: z
-        .object({
-          charge_limit_percent: z.number().optional(),
-          charging_amps: z.number().optional(),
-          cabin_temp_c: z.number().optional(),
-          seat_position: z
-            .number()
-            .optional()
-            .describe("Seat index per Tessie docs (0=driver,1=passenger,...)."),
-          seat_level: z
-            .number()
-            .optional()
-            .describe("Heating/cooling level (0-3)."),
-          speed_limit_mph: z.number().optional(),
-          speed_limit_pin: z.string().optional().describe("Speed limit PIN (sensitive; avoid logging)."),
-          fan_only: z.boolean().optional(),
-          cabin_overheat_on: z.boolean().optional(),
-          cabin_overheat_temp_c: z.number().optional(),
-          wait_for_completion: z.boolean().optional(),
-          confirm: z
-            .boolean()
-            .optional()
-            .describe("Required true for state-changing operations."),
-        })
-        .optional(),
-    },
-    async ({ vin, operation, params }) => {
+      vin: vehicleSchema,
+      start: z.string().optional().describe("ISO 8601 start timestamp."),
+      end: z.string().optional().describe("ISO 8601 end timestamp."),
+      interval: z
+        .string()
+        .optional()
+        .describe("Sampling interval passed to Tessie (e.g. 5m, 1h). Omit for a sensible default."),
+    },
+    async ({ vin: vehicle, start, end, interval }) => {
       try {
         const activeClient = requireClient();
-        const config = commandMap[operation];
-        if (!config) {
-          throw new Error(`Unsupported operation: ${operation}`);
-        }
+        const vin = await resolveVin(vehicle);
+        const states: TessieVehicleState[] = await activeClient.getHistoricalStates(vin, { start, end, interval });
+        const points = downsample(states, STATE_POINT_LIMIT).map((state) => {
+          const summary = toStateSummary(vin, state);
+          return {
+            timestamp: summary.timestamp,
+            battery_level: summary.battery_level,
+            est_range_miles: summary.est_range_miles,
+            inside_temp: summary.climate.inside_temp,
+            outside_temp: summary.climate.outside_temp,
+            odometer: summary.odometer,
+            latitude: summary.location.latitude,
+            longitude: summary.location.longitude,
+          };
+        });
+        const first = points[0];
+        const last = points[points.length - 1];
 
-        const isDestructive = !SAFE_OPERATIONS.includes(operation);
-        if (isDestructive && params?.confirm !== true) {
+        return wrapContent({
+          vin,
+          summary: {
+            total_points: states.length,
+            returned_points: points.length,
+            from: first?.timestamp,
+            to: last?.timestamp,
+            battery_change:
+              first?.battery_level !== undefined && last?.battery_level !== undefined
+                ? last.battery_level - first.battery_level
+                : undefined,
+            distance_miles:
+              first?.odometer !== undefined && last?.odometer !== undefined
+                ? roundTo(last.odometer - first.odometer)
+                : undefined,
+          },
+          points,
+          note:
+            states.length > points.length
+              ? `Downsampled ${states.length} states to ${points.length}; narrow the range or raise the interval for more detail.`
+              : undefined,
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_historical_states"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_telemetry_snapshot",
+    "Latest Fleet Telemetry values streamed by the vehicle. Reads the live stream only and never wakes the car.",
+    {
+      vin: vehicleSchema,
+      fields: z
+        .array(z.string())
+        .optional()
+        .describe("Telemetry field names to include (e.g. Soc, Odometer). Omit for all received fields."),
+    },
+    async ({ vin: vehicle, fields }) => {
+      try {
+        const vin = await resolveVin(vehicle);
+        const stream = requireTelemetry();
+        const snapshot = stream.connect(vin);
+        const selected = fields?.length
+          ? Object.fromEntries(fields.filter((key) => key in snapshot.fields).map((key) => [key, snapshot.fields[key]]))
+          : snapshot.fields;
+
+        return wrapContent({
+          vin,
+          socket: snapshot.socket,
+          vehicle_connectivity: snapshot.vehicle_connectivity,
+          updated_at: snapshot.updated_at,
+          summary: toTelemetrySummary(snapshot),
+          fields: selected,
+          stream_errors: snapshot.errors.slice(0, LIST_LIMIT),
+          note: snapshot.updated_at
+            ? undefined
+            : "No telemetry received yet; the stream stays open, so call again shortly. The vehicle must have Fleet Telemetry configured.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_telemetry_snapshot"));
+      }
+    },
+  );
+
+  server.tool(
+    "get_telemetry_alerts",
+    "Recent vehicle alerts received over Fleet Telemetry (newest first). Never wakes the car.",
+    {
+      vin: vehicleSchema,
+      active_only: z.boolean().optional().describe("Only include alerts that have not ended."),
+      limit: z.number().int().positive().optional().default(20),
+    },
+    async ({ vin: vehicle, active_only, limit = 20 }) => {
+      try {
+        const vin = await resolveVin(vehicle);
+        const stream = requireTelemetry();
+        const snapshot = stream.connect(vin);
+        const alerts = stream.getAlerts(vin, { activeOnly: active_only });
+
+        return wrapContent({
+          vin,
+          socket: snapshot.socket,
+          alerts: summarizeList(alerts.map((alert) => ({ ...alert })), limit),
+          note: "Alert codes are documented at https://stats.tessie.com/alerts.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_telemetry_alerts"));
+      }
+    },
+  );
+
+  server.tool(
+    "manage_vehicle_access",
+    "List drivers and invitations, create a driver invitation, or revoke an invitation / delete a driver (confirm required).",
+    {
+      vin: vehicleSchema,
+      action: z.enum(ACCESS_ACTIONS),
+      id: z
+        .union([z.number().int().positive(), z.string().min(1)])
+        .optional()
+        .describe("Invitation ID (revoke_invitation) or driver ID (delete_driver) from the list action."),
+      confirm: z.boolean().optional().describe("Required for revoke_invitation and delete_driver."),
+    },
+    async ({ vin: vehicle, action, id, confirm }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+
+        if (DESTRUCTIVE_ACCESS_ACTIONS.includes(action) && confirm !== true) {
           return wrapContent({
             isError: true,
             message: "Confirmation required for this operation.",
-            guidance: "Pass params.confirm: true to proceed.",
+            guidance: "Pass confirm: true to proceed.",
           });
         }
 
-        if (operation === "set_charge_limit") {
-          ensureRange(params?.charge_limit_percent, "charge_limit_percent", 1, 100);
-        }
-        if (operation === "set_charging_amps") {
-          ensurePositive(params?.charging_amps, "charging_amps");
+        if (action === "list") {
+          const [drivers, invitations] = await Promise.all([
+            activeClient.getDrivers(vin),
+            activeClient.getInvitations(vin),
+          ]);
+          return wrapContent({
+            vin,
+            drivers: summarizeList(drivers.map((driver) => toDriverSummary(driver)), LIST_LIMIT),
+            invitations: summarizeList(invitations.map((invitation) => toInvitationSummary(invitation)), LIST_LIMIT),
+          });
         }
-        if (operation === "set_temperature") {
-          ensureRange(params?.cabin_temp_c, "cabin_temp_c", -10, 40);
+
+        if (action === "create_invitation") {
+          const invitation = await activeClient.createInvitation(vin);
+          return wrapContent({
+            vin,
+            action,
+            invitation: toInvitationSummary(invitation),
+            guidance: "Share the invitation link with the new driver; it is single-use.",
+          });
         }
-        if (operation === "set_speed_limit") {
-          ensurePositive(params?.speed_limit_mph, "speed_limit_mph");
+
+        if (id === undefined) {
+          return wrapContent({
+            isError: true,
+            message: `id is required for ${action}.`,
+            guidance: "Use action list to find invitation and driver IDs.",
+          });
         }
-        if (operation === "set_seat_heating" || operation === "set_seat_cooling") {
-          ensureNumberProvided(params?.seat_position, "seat_position", true);
-          ensureRange(params?.seat_level, "seat_level", 0, 3);
+        const result =
+          action === "revoke_invitation"
+            ? await activeClient.revokeInvitation(vin, id)
+            : await activeClient.deleteDriver(vin, id);
+        return wrapContent({
+          vin,
+          action,
+          id,
+          result,
+          guidance: "Use action list to confirm the change.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "manage_vehicle_access"));
+      }
+    },
+  );
+
+  server.tool(
+    "manage_telemetry_config",
+    "Read, set or delete the vehicle's Fleet Telemetry configuration. set without fields applies Tessie's recommended config; set and delete require confirm.",
+    {
+      vin: vehicleSchema,
+      action: z.enum(TELEMETRY_CONFIG_ACTIONS),
+      fields: telemetryFieldsSchema,
+      confirm: z.boolean().optional().describe("Required for set and delete."),
+    },
+    async ({ vin: vehicle, action, fields, confirm }) => {
+      try {
+        const activeClient = requireClient();
+        const vin = await resolveVin(vehicle);
+
+        if (action !== "get" && confirm !== true) {
+          return wrapContent({
+            isError: true,
+            message: "Confirmation required for this operation.",
+            guidance:
+              action === "delete"
+                ? "Deleting the config stops Fleet Telemetry streaming and disables Tessie features that rely on it. Pass confirm: true to proceed."
+                : "Pass confirm: true to proceed.",
+          });
         }
-        if (
-          operation === "enable_speed_limit" ||
-          operation === "disable_speed_limit" ||
-          operation === "clear_speed_limit_pin"
-        ) {
-          ensureNonEmptyString(params?.speed_limit_pin, "speed_limit_pin");
+
+        if (action === "get") {
+          const config = await activeClient.getTelemetryConfig(vin);
+          return wrapContent(toTelemetryConfigSummary(vin, config));
         }
-        if (operation === "set_cabin_overheat_protection_temp") {
-          ensureRange(params?.cabin_overheat_temp_c, "cabin_overheat_temp_c", 15, 60);
+
+        if (action === "set") {
+          const result = await activeClient.setTelemetryConfig(vin, fields);
+          return wrapContent({
+            vin,
+            action,
+            mode: fields ? "custom" : "recommended",
+            fields: fields ? Object.keys(fields).sort() : undefined,
+            result,
+            guidance: "The vehicle applies the config when it next connects; use action get and check synced.",
+          });
         }
-        if (operation === "set_cabin_overheat_protection") {
-          ensureBoolean(params?.cabin_overheat_on, "cabin_overheat_on");
+
+        const result = await activeClient.deleteTelemetryConfig(vin);
+        return wrapContent({
+          vin,
+          action,
+          result,
+          guidance: "Use action set without fields to restore Tessie's recommended config.",
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "manage_telemetry_config"));
+      }
+    },
+  );
+
+  server.tool(
+    "manage_vehicle_command",
+    "Composite command executor for Tessie vehicle actions (lock, charging, climate, speed limit, sentry, keyless driving via remote_start). Each operation accepts only its own params. Speed limit PIN is sensitive—avoid logging or sharing it.",
+    {
+      vin: vehicleSchema,
+      operation: z.enum(operations).describe(`Operation and the params it accepts (* = required): ${operationGuide}`),
+      params: commandParamsSchema
+        .optional()
+        .describe("Params for the chosen operation only; each option lists the operations it applies to."),
+      wake_timeout_seconds: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_WAKE_TIMEOUT_SECONDS)
+        .optional()
+        .default(DEFAULT_WAKE_TIMEOUT_SECONDS)
+        .describe("Seconds to wait for an asleep car to come online before sending (default 60). 0 sends without waking."),
+      verify_timeout_seconds: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_VERIFY_TIMEOUT_SECONDS)
+        .optional()
+        .default(DEFAULT_VERIFY_TIMEOUT_SECONDS)
+        .describe("Seconds to wait for live state to reflect the command (default 20). 0 skips verification."),
+    },
+    async (
+      {
+        vin: vehicle,
+        operation,
+        params,
+        wake_timeout_seconds = DEFAULT_WAKE_TIMEOUT_SECONDS,
+        verify_timeout_seconds = DEFAULT_VERIFY_TIMEOUT_SECONDS,
+      },
+      extra,
+    ) => {
+      const startedAt = Date.now();
+      let stage: "validate" | "wake" | "send" = "validate";
+      let vin: string | undefined;
+      let payload: unknown = params ?? {};
+      const audit = (outcome: AuditOutcome, details: { verification?: string; error?: string } = {}) =>
+        auditLog.append({
+          timestamp: new Date(startedAt).toISOString(),
+          vin,
+          vehicle,
+          operation,
+          payload,
+          confirm: params?.confirm === true,
+          outcome,
+          ...details,
+          latency_ms: Date.now() - startedAt,
+          client_id: extra?.authInfo?.clientId,
+          session_id: extra?.sessionId,
+        });
+
+      try {
+        const activeClient = requireClient();
+        vin = await resolveVin(vehicle);
+
+        const isDestructive = !SAFE_OPERATIONS.includes(operation);
+        if (isDestructive && params?.confirm !== true) {
+          await audit("rejected", { error: "Confirmation required" });
+          return wrapContent({
+            isError: true,
+            message: "Confirmation required for this operation.",
+            guidance: "Pass params.confirm: true to proceed.",
+          });
         }
 
-        const payload = config.buildPayload
-          ? config.buildPayload(params)
-          : { wait_for_completion: params?.wait_for_completion ?? true };
+        const command = parseCommand(operation, params ?? {});
+        const config = commandMap[command.operation] as {
+          endpoint: string;
+          buildPayload?: (params: typeof command.params) => Record<string, unknown>;
+          expect?: (params: typeof command.params) => StateExpectation[];
+        };
+        payload = config.buildPayload
+          ? config.buildPayload(command.params)
+          : { wait_for_completion: command.params.wait_for_completion ?? true };
 
-        const result = await activeClient.sendCommand(vin, config.endpoint, payload);
+        stage = "wake";
+        const wake =
+          wake_timeout_seconds > 0 && operation !== "wake"
+            ? await wakeAndWait(activeClient, vin, {
+                timeoutMs: wake_timeout_seconds * 1000,
+                signal: extra?.signal,
+                onPhase: wakeProgressNotifier(extra, wake_timeout_seconds * 1000),
+              })
+            : undefined;
+        if (wake && !wake.awake) {
+          await audit("wake_timeout");
+          return wrapContent({
+            isError: true,
+            message: `Vehicle did not come online within ${wake_timeout_seconds}s; command not sent.`,
+            vin,
+            operation,
+            wake,
+            guidance: "Retry with a longer wake_timeout_seconds, or check get_vehicle_status and connectivity.",
+          });
+        }
+
+        stage = "send";
+        const result =
+          command.operation === "wake"
+            ? await activeClient.wake(vin, {
+                timeoutMs: wake_timeout_seconds > 0 ? wake_timeout_seconds * 1000 : undefined,
+                signal: extra?.signal,
+              })
+            : await activeClient.sendCommand(vin, config.endpoint, payload as Record<string, unknown>);
+        const verification = await verifyCommandState(activeClient, vin, config.expect?.(command.params) ?? [], {
+          timeoutMs: verify_timeout_seconds * 1000,
+          signal: extra?.signal,
+        });
+        await audit("sent", { verification: verification.status });
         return wrapContent({
           vin,
           operation,
           request: payload,
+          wake,
           result,
-          guidance: "Verify status with fetch_vehicle_state if needed.",
+          verification,
+          guidance: VERIFICATION_GUIDANCE[verification.status],
         });
       } catch (error) {
+        await audit(stage === "validate" ? "rejected" : "error", {
+          error: (error as { message?: string })?.message ?? String(error),
+        });
         return wrapContent(toMcpError(error, "manage_vehicle_command"));
       }
     },
   );
 
+  server.tool(
+    "get_command_history",
+    "Audit log of vehicle commands sent through manage_vehicle_command (newest first): who, when, payload (PINs redacted), confirm flag, outcome and latency.",
+    {
+      vin: z
+        .string()
+        .trim()
+        .min(1)
+        .optional()
+        .describe("VIN, VIN suffix, plate or name to filter by. Omit for all vehicles."),
+      operation: z.enum(operations).optional(),
+      outcome: z.enum(auditOutcomes).optional().describe("sent, rejected (no confirm or invalid params), wake_timeout or error."),
+      start: z.string().optional().describe("ISO 8601 start timestamp."),
+      end: z.string().optional().describe("ISO 8601 end timestamp."),
+      limit: z.number().int().positive().optional().default(20),
+    },
+    async ({ vin: vehicle, operation, outcome, start, end, limit = 20 }) => {
+      try {
+        const vin = vehicle ? await resolveVin(vehicle) : undefined;
+        const entries = await auditLog.query({ vin, operation, outcome, start, end });
+        return wrapContent({
+          path: auditLog.path,
+          filter: { vin, operation, outcome, start, end },
+          matches: entries.length,
+          entries: summarizeList(entries, limit),
+        });
+      } catch (error) {
+        return wrapContent(toMcpError(error, "get_command_history"));
+      }
+    },
+  );
+
   return server;
 }
@@ -1,4 +1,56 @@
-import { TessieBatteryState, TessieDrive, TessieVehicleState, TessieVehicleSummary } from "./types.ts";
+import { roundTo } from "./format.ts";
+import { TelemetrySnapshot } from "./telemetry.ts";
+import { DAYS_OF_WEEK } from "./commands.ts";
+import {
+  TessieBatteryHealth,
+  TessieBatteryHealthMeasurement,
+  TessieBatteryState,
+  TessieCharge,
+  TessieChargingInvoice,
+  TessieDrive,
+  TessieDriver,
+  TessieFirmwareAlert,
+  TessieIdle,
+  TessieInvitation,
+  TessieLocation,
+  TessieTelemetryConfig,
+  TessieTirePressure,
+  TessieVehicleState,
+  TessieVehicleSummary,
+  TessieWeather,
+} from "./types.ts";
+
+// Tessie timestamps arrive as unix seconds, unix milliseconds or ISO strings.
+export function toEpochMs(value?: number | string | null) {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "number") {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  const numeric = Number(value);
+  if (!Number.isNaN(numeric)) return toEpochMs(numeric);
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function durationMinutes(start?: number | string | null, end?: number | string | null) {
+  const startMs = toEpochMs(start);
+  const endMs = toEpochMs(end);
+  if (startMs === undefined || endMs === undefined || endMs < startMs) return undefined;
+  return Math.round((endMs - startMs) / 60000);
+}
+
+function formatMinutes(minutes?: number) {
+  if (minutes === undefined || minutes === null) return undefined;
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+// Vehicle state reports schedule days as a bitmask (bit 0 = Sunday) or as a comma-separated string.
+function decodeDaysOfWeek(days?: number | string) {
+  if (typeof days === "string") return days.split(",").map((day) => day.trim()).filter(Boolean);
+  if (typeof days !== "number") return undefined;
+  return DAYS_OF_WEEK.filter((_, index) => (days & (1 << index)) !== 0);
+}
 
 export function toVehicleListItem(v: TessieVehicleSummary) {
   return {
@@ -7,6 +59,7 @@ export function toVehicleListItem(v: TessieVehicleSummary) {
       v.display_name ||
       v?.vehicle_state?.vehicle_name ||
       v?.last_state?.vehicle_state?.vehicle_name,
+    plate: v?.plate || undefined,
     status: v.state || v?.vehicle_state?.state || v?.last_state?.state,
     last_seen: v?.last_seen ?? v?.vehicle_state?.timestamp ?? v?.last_state?.timestamp,
   };
@@ -18,7 +71,7 @@ export function toStateSummary(vin: string, state: TessieVehicleState) {
     vehicle: state?.vehicle_state?.vehicle_name ?? state?.display_name,
     locked: state?.vehicle_state?.locked,
     sentry_mode: state?.vehicle_state?.sentry_mode,
-    odometer: state?.vehicle_state?.odometer,
+    odometer: state?.vehicle_state?.odometer ?? state?.odometer,
     battery_level: state?.charge_state?.battery_level ?? state?.battery_level,
     charging_state: state?.charge_state?.charging_state ?? state?.charging_state,
     est_range_miles: state?.charge_state?.est_battery_range ?? state?.battery_range,
@@ -37,6 +90,41 @@ export function toStateSummary(vin: string, state: TessieVehicleState) {
   };
 }
 
+/**
+ * How old a state snapshot is and whether it came from Tessie's cache or a live (possibly waking) read.
+ */
+export function toFreshness(timestamp?: number | string, options: { live?: boolean; vehicleState?: string } = {}) {
+  const ms = toEpochMs(timestamp);
+  return {
+    source: options.live ? "live" : "cached",
+    as_of: ms !== undefined ? new Date(ms).toISOString() : undefined,
+    age_seconds: ms !== undefined ? Math.max(0, Math.round((Date.now() - ms) / 1000)) : undefined,
+    asleep: options.vehicleState ? options.vehicleState === "asleep" : undefined,
+  };
+}
+
+export function toFleetRow(
+  vehicle: TessieVehicleSummary,
+  state?: TessieVehicleState,
+  location?: TessieLocation,
+) {
+  const item = toVehicleListItem(vehicle);
+  const summary = state ? toStateSummary(vehicle.vin, state) : undefined;
+  return {
+    vin: item.vin,
+    name: item.name,
+    plate: item.plate,
+    status: item.status,
+    battery_level: summary?.battery_level,
+    est_range_miles: summary?.est_range_miles,
+    locked: summary?.locked,
+    sentry_mode: summary?.sentry_mode,
+    charging_state: summary?.charging_state,
+    location: location?.saved_location || location?.address || undefined,
+    last_seen: summary?.timestamp ?? item.last_seen,
+  };
+}
+
 export function toBatterySummary(vin: string, battery: TessieBatteryState) {
   return {
     vin,
@@ -47,6 +135,305 @@ export function toBatterySummary(vin: string, battery: TessieBatteryState) {
   };
 }
 
+export function toBatteryHealthSummary(
+  vin: string,
+  health?: TessieBatteryHealth,
+  measurements: TessieBatteryHealthMeasurement[] = [],
+) {
+  const series = measurements
+    .filter((m) => typeof m?.max_range === "number")
+    .sort((a, b) => (toEpochMs(a.timestamp) ?? 0) - (toEpochMs(b.timestamp) ?? 0));
+  const first = series[0];
+  const last = series[series.length - 1];
+  const currentMaxRange = health?.max_range ?? last?.max_range;
+  const originalMaxRange = health?.original_max_range;
+  const degradation =
+    health?.degradation_percent ??
+    (currentMaxRange !== undefined && originalMaxRange
+      ? roundTo((1 - currentMaxRange / originalMaxRange) * 100)
+      : undefined);
+
+  let trend;
+  if (first && last && first !== last) {
+    const changeMiles = (last.max_range as number) - (first.max_range as number);
+    const changePercent = (changeMiles / (first.max_range as number)) * 100;
+    const odometerDelta =
+      last.odometer !== undefined && first.odometer !== undefined ? last.odometer - first.odometer : undefined;
+    trend = {
+      measurements: series.length,
+      from: first.timestamp,
+      to: last.timestamp,
+      start_max_range: first.max_range,
+      end_max_range: last.max_range,
+      change_percent: roundTo(changePercent),
+      change_per_10k_miles:
+        odometerDelta && odometerDelta > 0 ? roundTo((changePercent / odometerDelta) * 10000) : undefined,
+      direction: changePercent <= -1 ? "declining" : changePercent >= 1 ? "improving" : "stable",
+    };
+  }
+
+  return {
+    vin,
+    name: health?.display_name,
+    odometer: health?.odometer ?? last?.odometer,
+    current_max_range: currentMaxRange,
+    original_max_range: originalMaxRange,
+    degradation_percent: degradation,
+    capacity_kwh: health?.capacity ?? last?.capacity,
+    original_capacity_kwh: health?.original_capacity,
+    trend,
+  };
+}
+
+const BAR_TO_PSI = 14.5038;
+const TIRE_CORNERS = ["front_left", "front_right", "rear_left", "rear_right"] as const;
+
+type TireCorner = (typeof TIRE_CORNERS)[number];
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Per-corner pressure in PSI and bar with threshold checks. A corner is flagged as a slow leak when
+ * it sits `leakDropPsi` below its own median over the earlier readings and has also dropped that much
+ * more than the other corners (so a cold morning, which lowers all four, is not reported as a leak).
+ */
+export function toTirePressureSummary(
+  vin: string,
+  readings: TessieTirePressure[],
+  thresholds: { lowPsi: number; highPsi: number; leakDropPsi: number },
+) {
+  const series = [...readings].sort((a, b) => (toEpochMs(a.timestamp) ?? 0) - (toEpochMs(b.timestamp) ?? 0));
+  const latest = series[series.length - 1];
+  const history = series.slice(0, -1);
+
+  const baselines: Partial<Record<TireCorner, number>> = {};
+  const drops: Partial<Record<TireCorner, number>> = {};
+  for (const corner of TIRE_CORNERS) {
+    const earlier = history.map((reading) => reading[corner]).filter((value): value is number => typeof value === "number");
+    const current = latest?.[corner];
+    if (earlier.length && typeof current === "number") {
+      const baseline = median(earlier) * BAR_TO_PSI;
+      baselines[corner] = baseline;
+      drops[corner] = baseline - current * BAR_TO_PSI;
+    }
+  }
+
+  const alerts: string[] = [];
+  const corners = TIRE_CORNERS.map((corner) => {
+    const bar = latest?.[corner];
+    const psi = typeof bar === "number" ? roundTo(bar * BAR_TO_PSI, 1) : undefined;
+    const drop = drops[corner];
+    const others = TIRE_CORNERS.filter((other) => other !== corner)
+      .map((other) => drops[other])
+      .filter((value): value is number => value !== undefined);
+    const othersAverage = others.length ? others.reduce((sum, value) => sum + value, 0) / others.length : 0;
+    const threshold =
+      psi === undefined ? "unknown" : psi < thresholds.lowPsi ? "low" : psi > thresholds.highPsi ? "high" : "ok";
+    const slowLeak =
+      drop !== undefined && drop >= thresholds.leakDropPsi && drop - othersAverage >= thresholds.leakDropPsi;
+    const baselinePsi = baselines[corner] !== undefined ? roundTo(baselines[corner] as number, 1) : undefined;
+    const dropPsi = drop !== undefined ? roundTo(drop, 1) : undefined;
+
+    if (threshold === "low") alerts.push(`${corner} is low at ${psi} psi (below ${thresholds.lowPsi}).`);
+    if (threshold === "high") alerts.push(`${corner} is high at ${psi} psi (above ${thresholds.highPsi}).`);
+    if (slowLeak) alerts.push(`${corner} may have a slow leak: ${dropPsi} psi below its recent ${baselinePsi} psi.`);
+
+    return {
+      corner,
+      psi,
+      bar: typeof bar === "number" ? roundTo(bar) : undefined,
+      tpms_status: latest?.[`${corner}_status`],
+      threshold,
+      baseline_psi: baselinePsi,
+      drop_psi: dropPsi,
+      slow_leak: slowLeak,
+    };
+  });
+
+  return {
+    vin,
+    measured_at: latest?.timestamp,
+    corners,
+    alerts,
+    history_readings: history.length,
+  };
+}
+
+export function toLocationSummary(vin: string, location?: TessieLocation, weather?: TessieWeather) {
+  return {
+    vin,
+    address: location?.address,
+    saved_location: location?.saved_location ?? undefined,
+    latitude: location?.latitude,
+    longitude: location?.longitude,
+    weather: weather
+      ? {
+          area: weather.location,
+          condition: weather.condition,
+          temperature_c: weather.temperature,
+          feels_like_c: weather.feels_like,
+          humidity_percent: weather.humidity,
+          wind_speed: weather.wind_speed,
+          cloudiness_percent: weather.cloudiness,
+          sunrise: weather.sunrise,
+          sunset: weather.sunset,
+        }
+      : undefined,
+  };
+}
+
+const SOFTWARE_UPDATE_MIN_BATTERY_PERCENT = 20;
+
+/**
+ * Pending software update (version, progress, schedule) with a recommendation on whether to
+ * run schedule_software_update now.
+ */
+export function toSoftwareUpdateSummary(vin: string, state: TessieVehicleState) {
+  const update = state?.vehicle_state?.software_update;
+  const status = update?.status || undefined;
+  const shiftState = state?.drive_state?.shift_state;
+  const batteryLevel = state?.charge_state?.battery_level ?? state?.battery_level;
+
+  let recommendation: { action: string; reason: string };
+  if (!status || !update?.version?.trim()) {
+    recommendation = { action: "none", reason: "No software update is pending." };
+  } else if (status === "installing") {
+    recommendation = { action: "wait", reason: "The update is already installing." };
+  } else if (status === "scheduled") {
+    recommendation = { action: "none", reason: "The update is already scheduled; cancel_software_update clears it." };
+  } else if (status.startsWith("downloading")) {
+    recommendation = {
+      action: "wait",
+      reason:
+        status === "downloading_wifi_wait"
+          ? "The download is waiting for Wi-Fi; park within Wi-Fi range."
+          : "The update is still downloading.",
+    };
+  } else if (shiftState && shiftState !== "P") {
+    recommendation = { action: "wait", reason: "The vehicle is not parked; the car cannot be driven while installing." };
+  } else if (batteryLevel !== undefined && batteryLevel < SOFTWARE_UPDATE_MIN_BATTERY_PERCENT) {
+    recommendation = {
+      action: "wait",
+      reason: `Battery is at ${batteryLevel}%; charge above ${SOFTWARE_UPDATE_MIN_BATTERY_PERCENT}% before installing.`,
+    };
+  } else {
+    recommendation = {
+      action: "install_now",
+      reason: "The update is downloaded and the vehicle is parked; run schedule_software_update with offset_seconds 0.",
+    };
+  }
+
+  return {
+    vin,
+    current_version: state?.vehicle_state?.car_version,
+    update: status
+      ? {
+          status,
+          version: update?.version || undefined,
+          download_percent: update?.download_perc,
+          install_percent: update?.install_perc,
+          expected_duration_minutes:
+            update?.expected_duration_sec !== undefined ? Math.round(update.expected_duration_sec / 60) : undefined,
+          scheduled_at: update?.scheduled_time_ms ? new Date(update.scheduled_time_ms).toISOString() : undefined,
+        }
+      : undefined,
+    recommendation,
+  };
+}
+
+export function toFirmwareAlert(alert: TessieFirmwareAlert) {
+  return {
+    name: alert?.name,
+    time: alert?.time,
+    audience: alert?.audience,
+    message: alert?.user_text,
+  };
+}
+
+export function toDriverSummary(driver: TessieDriver) {
+  return {
+    id: driver?.id ?? driver?.user_id,
+    name: [driver?.driver_first_name, driver?.driver_last_name].filter(Boolean).join(" ") || undefined,
+    hide_private: driver?.granular_access?.hide_private,
+  };
+}
+
+export function toInvitationSummary(invitation: TessieInvitation) {
+  return {
+    id: invitation?.id,
+    state: invitation?.state,
+    share_link: invitation?.share_link,
+    created_at: invitation?.created_at,
+    expires_at: invitation?.expires_at,
+    revoked_at: invitation?.revoked_at ?? undefined,
+  };
+}
+
+export function toTelemetryConfigSummary(vin: string, config: TessieTelemetryConfig) {
+  const fields = config?.config?.fields ?? {};
+  return {
+    vin,
+    configured: Boolean(config?.config),
+    synced: config?.synced,
+    update_available: config?.update_available,
+    expires_at: config?.config?.exp ? new Date(config.config.exp * 1000).toISOString() : undefined,
+    fields: Object.entries(fields)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, field]) => ({
+        name,
+        interval_seconds: field?.interval_seconds,
+        minimum_delta: field?.minimum_delta,
+        resend_interval_seconds: field?.resend_interval_seconds,
+      })),
+    alert_types: config?.config?.alert_types,
+  };
+}
+
+export function toScheduleSummary(vin: string, state: TessieVehicleState) {
+  const charge = state?.charge_state;
+  return {
+    vin,
+    charge_schedules: (state?.charge_schedule_data?.charge_schedules ?? []).map((schedule) => ({
+      id: schedule.id,
+      name: schedule.name,
+      enabled: schedule.enabled,
+      days_of_week: decodeDaysOfWeek(schedule.days_of_week),
+      start: schedule.start_enabled ? formatMinutes(schedule.start_time) : undefined,
+      end: schedule.end_enabled ? formatMinutes(schedule.end_time) : undefined,
+      one_time: schedule.one_time,
+      latitude: schedule.latitude,
+      longitude: schedule.longitude,
+    })),
+    precondition_schedules: (state?.preconditioning_schedule_data?.precondition_schedules ?? []).map((schedule) => ({
+      id: schedule.id,
+      name: schedule.name,
+      enabled: schedule.enabled,
+      days_of_week: decodeDaysOfWeek(schedule.days_of_week),
+      ready_at: formatMinutes(schedule.precondition_time),
+      one_time: schedule.one_time,
+      latitude: schedule.latitude,
+      longitude: schedule.longitude,
+    })),
+    scheduled_charging: {
+      mode: charge?.scheduled_charging_mode,
+      pending: charge?.scheduled_charging_pending,
+      start: formatMinutes(charge?.scheduled_charging_start_time_minutes),
+    },
+    scheduled_departure: {
+      departure: formatMinutes(charge?.scheduled_departure_time_minutes),
+      preconditioning_enabled: charge?.preconditioning_enabled,
+      preconditioning_times: charge?.preconditioning_times,
+      off_peak_charging_enabled: charge?.off_peak_charging_enabled,
+      off_peak_charging_times: charge?.off_peak_charging_times,
+      off_peak_end: formatMinutes(charge?.off_peak_hours_end_time),
+    },
+  };
+}
+
 export function toDriveSummary(drive: TessieDrive) {
   return {
     id: drive?.id ?? drive?.import_id,
@@ -58,6 +445,77 @@ export function toDriveSummary(drive: TessieDrive) {
       drive?.odometer_distance ?? drive?.distance_miles ?? drive?.distance,
     energy_used_kwh: drive?.energy_used,
     average_speed: drive?.average_speed,
+    outside_temp: drive?.average_outside_temperature,
     tag: drive?.tag,
   };
 }
+
+export function toChargeSummary(charge: TessieCharge) {
+  return {
+    id: charge?.id,
+    started_at: charge?.started_at,
+    ended_at: charge?.ended_at,
+    location: charge?.saved_location || charge?.location,
+    energy_added_kwh: charge?.energy_added,
+    cost: charge?.cost ?? undefined,
+    start_soc: charge?.starting_battery,
+    end_soc: charge?.ending_battery,
+    duration_minutes: durationMinutes(charge?.started_at, charge?.ended_at),
+    supercharger: charge?.is_supercharger === true,
+  };
+}
+
+export function toTelemetrySummary(snapshot: TelemetrySnapshot) {
+  const value = (key: string) => snapshot.fields[key]?.value;
+  return {
+    battery_level: value("Soc") ?? value("BatteryLevel"),
+    est_range_miles: value("EstBatteryRange"),
+    odometer: value("Odometer"),
+    location: value("Location"),
+    speed: value("VehicleSpeed"),
+    gear: value("Gear"),
+    locked: value("Locked"),
+    sentry_mode: value("SentryMode"),
+    charge_state: value("DetailedChargeState") ?? value("ChargeState"),
+    charging_power_kw: value("ACChargingPower") ?? value("DCChargingPower"),
+    inside_temp: value("InsideTemp"),
+    outside_temp: value("OutsideTemp"),
+  };
+}
+
+export function toChargingInvoiceSummary(invoice: TessieChargingInvoice) {
+  return {
+    id: invoice?.id ?? invoice?.invoice_number,
+    vin: invoice?.vin,
+    location: invoice?.location,
+    started_at: invoice?.started_at,
+    ended_at: invoice?.ended_at,
+    energy_kwh: invoice?.energy_used,
+    cost: invoice?.total_cost ?? invoice?.cost,
+    currency: invoice?.currency,
+  };
+}
+
+export function toIdleSummary(idle: TessieIdle) {
+  const minutes = durationMinutes(idle?.started_at, idle?.ended_at);
+  const hours = minutes !== undefined ? roundTo(minutes / 60) : undefined;
+  const batteryLost =
+    idle?.starting_battery !== undefined && idle?.ending_battery !== undefined
+      ? idle.starting_battery - idle.ending_battery
+      : undefined;
+  return {
+    id: idle?.id,
+    started_at: idle?.started_at,
+    ended_at: idle?.ended_at,
+    location: idle?.saved_location || idle?.location,
+    hours_parked: hours,
+    battery_lost_percent: batteryLost,
+    energy_used_kwh: idle?.energy_used,
+    drain_percent_per_day:
+      batteryLost !== undefined && minutes ? roundTo((batteryLost / minutes) * 60 * 24) : undefined,
+    sentry_percent_of_time:
+      idle?.sentry_fraction !== undefined ? Math.round(idle.sentry_fraction * 100) : undefined,
+    climate_percent_of_time:
+      idle?.climate_fraction !== undefined ? Math.round(idle.climate_fraction * 100) : undefined,
+  };
+}
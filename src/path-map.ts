@@ -0,0 +1,115 @@
+import { deflateSync } from "zlib";
+import { ImageContent } from "./format.ts";
+
+export type PathPoint = { latitude: number; longitude: number };
+
+type Rgb = [number, number, number];
+
+const BACKGROUND: Rgb = [244, 244, 240];
+const ROUTE: Rgb = [31, 111, 235];
+const START: Rgb = [34, 160, 80];
+const END: Rgb = [210, 50, 50];
+const PADDING_PX = 24;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function encodePng(pixels: Buffer, width: number, height: number) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour RGB
+  // every scanline is prefixed with filter type 0
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y += 1) {
+    pixels.copy(raw, y * (width * 3 + 1) + 1, y * width * 3, (y + 1) * width * 3);
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function mercatorY(latitude: number) {
+  const rad = (latitude * Math.PI) / 180;
+  return Math.log(Math.tan(Math.PI / 4 + rad / 2));
+}
+
+/**
+ * Draws a drive's path as a Web Mercator polyline with start (green) and end (red) markers and returns it
+ * as PNG image content. Tessie's map endpoint only shows the current location, so the route is rendered
+ * locally on a plain background without basemap tiles.
+ */
+export function renderPathMap(points: PathPoint[], options: { width?: number; height?: number } = {}): ImageContent {
+  const width = options.width ?? 600;
+  const height = options.height ?? 400;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i += 1) pixels.set(BACKGROUND, i * 3);
+
+  const plot = (x: number, y: number, radius: number, color: Rgb) => {
+    const r = Math.ceil(radius);
+    for (let dy = -r; dy <= r; dy += 1) {
+      for (let dx = -r; dx <= r; dx += 1) {
+        if (dx * dx + dy * dy > radius * radius) continue;
+        const px = Math.round(x + dx);
+        const py = Math.round(y + dy);
+        if (px < 0 || py < 0 || px >= width || py >= height) continue;
+        pixels.set(color, (py * width + px) * 3);
+      }
+    }
+  };
+
+  const projected = points.map((point) => ({ x: point.longitude, y: mercatorY(point.latitude) }));
+  if (projected.length > 0) {
+    let [minX, maxX, minY, maxY] = [Infinity, -Infinity, Infinity, -Infinity];
+    for (const point of projected) {
+      minX = Math.min(minX, point.x);
+      maxX = Math.max(maxX, point.x);
+      minY = Math.min(minY, point.y);
+      maxY = Math.max(maxY, point.y);
+    }
+    // longitude is in degrees and y in radians; convert y so both axes share a unit
+    const spanX = Math.max(maxX - minX, 1e-6);
+    const spanY = Math.max(((maxY - minY) * 180) / Math.PI, 1e-6);
+    const scale = Math.min((width - 2 * PADDING_PX) / spanX, (height - 2 * PADDING_PX) / spanY);
+    const toPixel = (point: { x: number; y: number }) => ({
+      x: width / 2 + (point.x - (minX + maxX) / 2) * scale,
+      y: height / 2 - (((point.y - (minY + maxY) / 2) * 180) / Math.PI) * scale,
+    });
+
+    const pixelsPath = projected.map(toPixel);
+    for (let i = 1; i < pixelsPath.length; i += 1) {
+      const from = pixelsPath[i - 1];
+      const to = pixelsPath[i];
+      const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y)));
+      for (let step = 0; step <= steps; step += 1) {
+        plot(from.x + ((to.x - from.x) * step) / steps, from.y + ((to.y - from.y) * step) / steps, 1.5, ROUTE);
+      }
+    }
+    plot(pixelsPath[0].x, pixelsPath[0].y, 6, START);
+    plot(pixelsPath[pixelsPath.length - 1].x, pixelsPath[pixelsPath.length - 1].y, 6, END);
+  }
+
+  return { data: encodePng(pixels, width, height).toString("base64"), mimeType: "image/png" };
+}
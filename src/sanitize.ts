@@ -0,0 +1,47 @@
+/**
+ * Keys whose values never leave the process: credentials and the PINs some commands take.
+ */
+export const SENSITIVE_KEYS = [
+  "headers",
+  "authorization",
+  "auth",
+  "token",
+  "password",
+  "apikey",
+  "api_key",
+  "pin",
+  "speed_limit_pin",
+];
+
+/**
+ * Deep copy safe for logs and the audit file: errors reduce to name/message and cycles are cut.
+ * Sensitive keys are dropped, or kept as "[REDACTED]" with `redact` so a record still shows they were sent.
+ */
+export function sanitizeMetaDeep(
+  value: unknown,
+  options: { redact?: boolean } = {},
+  visited = new WeakSet<object>(),
+): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => sanitizeMetaDeep(v, options, visited));
+  }
+  if (value && typeof value === "object") {
+    if (visited.has(value as object)) {
+      return "[Circular]";
+    }
+    visited.add(value as object);
+    const clone: Record<string, unknown> = {};
+    for (const [key, val] of Object.entries(value)) {
+      if (SENSITIVE_KEYS.includes(key.toLowerCase())) {
+        if (options.redact) clone[key] = "[REDACTED]";
+        continue;
+      }
+      clone[key] = sanitizeMetaDeep(val, options, visited);
+    }
+    return clone;
+  }
+  return value;
+}
@@ -0,0 +1,312 @@
+import WebSocket from "ws";
+
+const STREAMING_BASE_URL = "wss://streaming.tessie.com";
+const DEFAULT_MAX_ALERTS = 50;
+const DEFAULT_MAX_ERRORS = 20;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+const DEFAULT_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_FAILED_CONNECTS = 5;
+
+/**
+ * Shape of a Fleet Telemetry field name (a `Field` in Tesla's vehicle_data.proto, e.g. Soc or VehicleSpeed).
+ * Only the shape is checked; the API rejects fields the vehicle does not support.
+ */
+export const TELEMETRY_FIELD_NAME_REGEX = /^[A-Z][A-Za-z0-9_]*$/;
+
+/**
+ * Minimal subset of the WebSocket API the stream relies on, so tests can pass a local stand-in.
+ */
+export interface TelemetrySocket {
+  onopen: ((event?: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event?: unknown) => void) | null;
+  onerror: ((event?: unknown) => void) | null;
+  close(): void;
+}
+
+export type TelemetrySocketFactory = (url: string, headers: Record<string, string>) => TelemetrySocket;
+
+export type TelemetryLocation = { latitude: number; longitude: number };
+export type TelemetryValue = string | number | boolean | TelemetryLocation | null;
+
+export interface TelemetryField {
+  value: TelemetryValue;
+  updated_at: string;
+}
+
+export interface TelemetryAlert {
+  name: string;
+  audiences?: string[];
+  started_at?: string;
+  ended_at?: string;
+}
+
+export interface TelemetryStreamError {
+  name: string;
+  created_at?: string;
+  tags?: Record<string, string>;
+}
+
+export interface TelemetrySnapshot {
+  vin: string;
+  socket: "connecting" | "open" | "closed";
+  vehicle_connectivity?: string;
+  updated_at?: string;
+  fields: Record<string, TelemetryField>;
+  alerts: TelemetryAlert[];
+  errors: TelemetryStreamError[];
+}
+
+type StreamEntry = {
+  socket?: TelemetrySocket;
+  snapshot: TelemetrySnapshot;
+  reconnectAttempts: number;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+  // connections in a row that closed without delivering a message; vehicles without telemetry configured never do
+  failedConnects: number;
+  idleTimer?: ReturnType<typeof setTimeout>;
+  stopped: boolean;
+};
+
+function defaultSocketFactory(url: string, headers: Record<string, string>): TelemetrySocket {
+  // `ws` rather than the global WebSocket: Node 20 has none, and the global one cannot send headers.
+  return new WebSocket(url, { headers }) as unknown as TelemetrySocket;
+}
+
+/**
+ * Decodes a Fleet Telemetry datum value (`{ stringValue: "54.9" }`, `{ locationValue: {...} }`, ...).
+ * Numeric strings become numbers; enum-style values (e.g. `shiftStateValue`) stay strings.
+ */
+export function decodeTelemetryValue(raw: unknown): TelemetryValue {
+  if (!raw || typeof raw !== "object") return null;
+  const entries = Object.entries(raw as Record<string, unknown>).filter(([key]) => key !== "invalid");
+  if ((raw as { invalid?: boolean }).invalid === true || entries.length === 0) return null;
+  const [key, value] = entries[0];
+  if (key === "locationValue" && value && typeof value === "object") {
+    const { latitude, longitude } = value as Partial<TelemetryLocation>;
+    if (typeof latitude === "number" && typeof longitude === "number") {
+      return { latitude, longitude };
+    }
+    return null;
+  }
+  if (typeof value === "boolean" || typeof value === "number") return value;
+  if (typeof value === "string") {
+    const numeric = Number(value);
+    return value.trim() !== "" && !Number.isNaN(numeric) ? numeric : value;
+  }
+  return null;
+}
+
+export class TelemetryStream {
+  private streams = new Map<string, StreamEntry>();
+  private apiKey: string;
+  private socketFactory: TelemetrySocketFactory;
+  private baseUrl: string;
+  private maxAlerts: number;
+  private maxErrors: number;
+  private idleTimeoutMs: number;
+
+  constructor(
+    apiKey: string,
+    options?: {
+      socketFactory?: TelemetrySocketFactory;
+      baseUrl?: string;
+      maxAlerts?: number;
+      maxErrors?: number;
+      idleTimeoutMs?: number;
+    },
+  ) {
+    this.apiKey = apiKey;
+    this.socketFactory = options?.socketFactory ?? defaultSocketFactory;
+    this.baseUrl = options?.baseUrl ?? STREAMING_BASE_URL;
+    this.maxAlerts = options?.maxAlerts ?? DEFAULT_MAX_ALERTS;
+    this.maxErrors = options?.maxErrors ?? DEFAULT_MAX_ERRORS;
+    this.idleTimeoutMs = options?.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  }
+
+  /**
+   * Opens (or reuses) the per-VIN stream. Streaming is passive and never wakes the vehicle.
+   * A stream that is not read for `idleTimeoutMs`, or that keeps closing without data, is closed until the next call.
+   */
+  connect(vin: string) {
+    const existing = this.streams.get(vin);
+    if (existing && !existing.stopped) {
+      this.touch(vin, existing);
+      return existing.snapshot;
+    }
+    const entry: StreamEntry = existing ?? {
+      snapshot: { vin, socket: "closed", fields: {}, alerts: [], errors: [] },
+      reconnectAttempts: 0,
+      failedConnects: 0,
+      stopped: false,
+    };
+    entry.stopped = false;
+    entry.reconnectAttempts = 0;
+    entry.failedConnects = 0;
+    this.streams.set(vin, entry);
+    this.touch(vin, entry);
+    try {
+      this.open(vin, entry);
+    } catch (error) {
+      if (entry.idleTimer) clearTimeout(entry.idleTimer);
+      this.streams.delete(vin);
+      throw error;
+    }
+    return entry.snapshot;
+  }
+
+  disconnect(vin: string) {
+    const entry = this.streams.get(vin);
+    if (!entry) return;
+    entry.stopped = true;
+    if (entry.reconnectTimer) clearTimeout(entry.reconnectTimer);
+    entry.reconnectTimer = undefined;
+    if (entry.idleTimer) clearTimeout(entry.idleTimer);
+    entry.idleTimer = undefined;
+    entry.socket?.close();
+    entry.socket = undefined;
+    entry.snapshot.socket = "closed";
+  }
+
+  close() {
+    for (const vin of this.streams.keys()) {
+      this.disconnect(vin);
+    }
+  }
+
+  isConnected(vin: string) {
+    return this.streams.get(vin)?.snapshot.socket === "open";
+  }
+
+  getSnapshot(vin: string): TelemetrySnapshot | undefined {
+    const entry = this.streams.get(vin);
+    if (entry && !entry.stopped) this.touch(vin, entry);
+    return entry?.snapshot;
+  }
+
+  getAlerts(vin: string, options?: { activeOnly?: boolean; limit?: number }) {
+    const entry = this.streams.get(vin);
+    if (entry && !entry.stopped) this.touch(vin, entry);
+    const alerts = entry?.snapshot.alerts ?? [];
+    const filtered = options?.activeOnly ? alerts.filter((alert) => !alert.ended_at) : alerts;
+    return filtered.slice(0, options?.limit ?? filtered.length);
+  }
+
+  private touch(vin: string, entry: StreamEntry) {
+    if (entry.idleTimer) clearTimeout(entry.idleTimer);
+    entry.idleTimer = setTimeout(() => this.disconnect(vin), this.idleTimeoutMs);
+    entry.idleTimer.unref?.();
+  }
+
+  private open(vin: string, entry: StreamEntry) {
+    const url = `${this.baseUrl}/${encodeURIComponent(vin)}`;
+    let received = false;
+    const socket = this.socketFactory(url, { Authorization: `Bearer ${this.apiKey}` });
+    entry.socket = socket;
+    entry.snapshot.socket = "connecting";
+
+    socket.onopen = () => {
+      entry.reconnectAttempts = 0;
+      entry.snapshot.socket = "open";
+    };
+    socket.onmessage = (event) => {
+      received = true;
+      entry.failedConnects = 0;
+      this.handleMessage(entry, event.data);
+    };
+    socket.onerror = () => {
+      // close follows error events; reconnect is scheduled there
+    };
+    socket.onclose = () => {
+      if (entry.socket !== socket) return;
+      entry.socket = undefined;
+      entry.snapshot.socket = "closed";
+      if (!received) entry.failedConnects += 1;
+      if (!entry.stopped) this.scheduleReconnect(vin, entry);
+    };
+  }
+
+  private scheduleReconnect(vin: string, entry: StreamEntry) {
+    if (entry.failedConnects >= MAX_FAILED_CONNECTS) {
+      this.disconnect(vin);
+      entry.snapshot.errors = [
+        {
+          name: "stream_stopped",
+          created_at: new Date().toISOString(),
+          tags: { reason: `no data after ${MAX_FAILED_CONNECTS} connection attempts` },
+        },
+        ...entry.snapshot.errors,
+      ].slice(0, this.maxErrors);
+      return;
+    }
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * Math.pow(2, entry.reconnectAttempts),
+      RECONNECT_MAX_DELAY_MS,
+    );
+    entry.reconnectAttempts += 1;
+    entry.reconnectTimer = setTimeout(() => {
+      entry.reconnectTimer = undefined;
+      if (entry.stopped) return;
+      try {
+        this.open(vin, entry);
+      } catch {
+        entry.failedConnects += 1;
+        this.scheduleReconnect(vin, entry);
+      }
+    }, delay);
+    entry.reconnectTimer.unref?.();
+  }
+
+  private handleMessage(entry: StreamEntry, data: unknown) {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(typeof data === "string" ? data : String(data));
+    } catch {
+      return;
+    }
+    if (!message || typeof message !== "object") return;
+    const snapshot = entry.snapshot;
+    const createdAt = typeof message.createdAt === "string" ? message.createdAt : new Date().toISOString();
+
+    if (Array.isArray(message.data)) {
+      for (const datum of message.data as Array<{ key?: unknown; value?: unknown }>) {
+        if (typeof datum?.key !== "string") continue;
+        snapshot.fields[datum.key] = { value: decodeTelemetryValue(datum.value), updated_at: createdAt };
+      }
+      snapshot.updated_at = createdAt;
+    }
+
+    if (Array.isArray(message.alerts)) {
+      const incoming = (message.alerts as Array<Record<string, unknown>>)
+        .filter((alert) => typeof alert?.name === "string")
+        .map((alert) => ({
+          name: alert.name as string,
+          audiences: Array.isArray(alert.audiences) ? (alert.audiences as string[]) : undefined,
+          started_at: alert.startedAt as string | undefined,
+          ended_at: alert.endedAt as string | undefined,
+        }));
+      const keyOf = (alert: TelemetryAlert) => `${alert.name}:${alert.started_at ?? ""}`;
+      const incomingKeys = new Set(incoming.map(keyOf));
+      snapshot.alerts = [...incoming, ...snapshot.alerts.filter((alert) => !incomingKeys.has(keyOf(alert)))].slice(
+        0,
+        this.maxAlerts,
+      );
+    }
+
+    if (Array.isArray(message.errors)) {
+      const incoming = (message.errors as Array<Record<string, unknown>>)
+        .filter((error) => typeof error?.name === "string")
+        .map((error) => ({
+          name: error.name as string,
+          created_at: error.createdAt as string | undefined,
+          tags: error.tags as Record<string, string> | undefined,
+        }));
+      snapshot.errors = [...incoming, ...snapshot.errors].slice(0, this.maxErrors);
+    }
+
+    if (typeof message.status === "string") {
+      snapshot.vehicle_connectivity = message.status;
+    }
+  }
+}
@@ -1,26 +1,64 @@
-import axios, { AxiosInstance } from "axios";
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
 import { Agent as HttpAgent } from "http";
 import { Agent as HttpsAgent } from "https";
 import { toMcpError } from "./errors.ts";
+import { sanitizeMetaDeep } from "./sanitize.ts";
 import {
   TessieVehicleSummary,
   TessieVehicleState,
+  TessieVehicleStatus,
   TessieBatteryState,
+  TessieBatteryHealth,
+  TessieBatteryHealthMeasurement,
+  TessieBatteryHealthMeasurements,
   TessieDrive,
+  TessiePathPoint,
+  TessieCharge,
+  TessieIdle,
+  TessieConsumption,
+  TessieTirePressure,
+  TessieLocation,
+  TessieWeather,
+  TessieFirmwareAlert,
+  TessieDriver,
+  TessieInvitation,
+  TessieChargingInvoice,
+  TessieTelemetryConfig,
+  TessieTelemetryFieldConfig,
 } from "./types.ts";
+import { ImageContent } from "./format.ts";
+import { toEpochMs } from "./mappers.ts";
 
 const DEFAULT_TIMEOUT_MS = 30000;
 const MAX_DRIVE_LIMIT = 100;
+const MAX_RANGE_PAGES = 50;
+const MAX_CHARGE_LIMIT = 100;
+const MAX_IDLE_LIMIT = 100;
 const DEFAULT_MAX_CACHE_SIZE = 200;
 const CACHE_TTL_JITTER_RATIO = 0.1; // +/-10% jitter to avoid stampedes
 const DEBUG_LOG_ENABLED =
   process.env.TESSIE_MCP_DEBUG === "1" || process.env.TESSIE_MCP_DEBUG === "true";
 const VEHICLE_LIST_TTL_MS = 30000;
 const VEHICLE_STATE_TTL_MS = 15000;
+const VEHICLE_STATUS_TTL_MS = 5000;
 const BATTERY_TTL_MS = 15000;
 const DRIVES_TTL_MS = 30000;
 const DRIVING_PATH_TTL_MS = 30000;
 const HISTORICAL_STATE_TTL_MS = 30000;
+const CHARGES_TTL_MS = 30000;
+const BATTERY_HEALTH_TTL_MS = 60000;
+const IDLES_TTL_MS = 30000;
+const LAST_IDLE_STATE_TTL_MS = 15000;
+const CONSUMPTION_TTL_MS = 30000;
+const TIRE_PRESSURE_TTL_MS = 30000;
+const LOCATION_TTL_MS = 15000;
+const WEATHER_TTL_MS = 300000;
+const MAP_TTL_MS = 15000;
+const FIRMWARE_ALERTS_TTL_MS = 60000;
+const ACCESS_TTL_MS = 30000;
+const CHARGING_INVOICES_TTL_MS = 60000;
+const PLATE_TTL_MS = 300000;
+const TELEMETRY_CONFIG_TTL_MS = 60000;
 
 /**
  * Asserts the API response is an array (or results-wrapped array). Optionally validates items.
@@ -58,6 +96,22 @@ export interface DateRange {
   end?: string;
 }
 
+function toUnixSeconds(value: string, label: string) {
+  const ms = toEpochMs(value);
+  if (ms === undefined) throw new Error(`Invalid ${label} timestamp: ${value}`);
+  return String(Math.floor(ms / 1000));
+}
+
+/**
+ * Tessie's range filters are `from`/`to` in unix seconds; tools accept ISO 8601 `start`/`end`.
+ */
+function rangeParams(options: DateRange): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (options.start) params.from = toUnixSeconds(options.start, "start");
+  if (options.end) params.to = toUnixSeconds(options.end, "end");
+  return params;
+}
+
 export type CommandPayload = Record<string, unknown>;
 
 type CacheEntry = { expires: number; value: unknown; touched: number };
@@ -71,32 +125,9 @@ export class TessieClient {
   private cache = new Map<string, CacheEntry>();
   private inFlight = new Map<string, Promise<unknown>>();
 
-  private sanitizeMetaDeep(value: unknown, visited = new WeakSet<object>()): unknown {
-    const SENSITIVE_KEYS = ["headers", "authorization", "auth", "token", "password", "apikey", "api_key"];
-    if (value instanceof Error) {
-      return { name: value.name, message: value.message };
-    }
-    if (Array.isArray(value)) {
-      return value.map((v) => this.sanitizeMetaDeep(v, visited));
-    }
-    if (value && typeof value === "object") {
-      if (visited.has(value as object)) {
-        return "[Circular]";
-      }
-      visited.add(value as object);
-      const clone: Record<string, unknown> = {};
-      for (const [key, val] of Object.entries(value)) {
-        if (SENSITIVE_KEYS.includes(key.toLowerCase())) continue;
-        clone[key] = this.sanitizeMetaDeep(val, visited);
-      }
-      return clone;
-    }
-    return value;
-  }
-
   private logSafeDebug(message: string, meta: Record<string, unknown> = {}) {
     if (!this.debugEnabled) return;
-    const safeMeta = this.sanitizeMetaDeep(meta);
+    const safeMeta = sanitizeMetaDeep(meta);
     console.debug(`[TessieClient] ${message}`, safeMeta);
   }
 
@@ -152,7 +183,7 @@ export class TessieClient {
       const sorted = entries.sort(([a], [b]) => a.localeCompare(b));
       return JSON.stringify(Object.fromEntries(sorted));
     } catch (error) {
-      console.warn("Failed to serialize params for cache key", this.sanitizeMetaDeep(error));
+      console.warn("Failed to serialize params for cache key", sanitizeMetaDeep(error));
       return "__UNSERIALIZABLE_PARAMS__";
     }
   }
@@ -244,6 +275,24 @@ export class TessieClient {
     }
   }
 
+  /**
+   * POSTs a non-command write for a vehicle and drops its cached reads.
+   */
+  private async postForVin(
+    vin: string,
+    path: string,
+    body: Record<string, unknown>,
+    context: string,
+    config?: AxiosRequestConfig,
+  ) {
+    const result = await this.withRetry(async () => {
+      const response = await this.client.post<Record<string, unknown>>(`/${vin}/${path}`, body, config);
+      return response.data;
+    }, context);
+    this.invalidateVin(vin);
+    return result;
+  }
+
   async listVehicles(options?: { onlyActive?: boolean }): Promise<TessieVehicleSummary[]> {
     const key = this.cacheKey(
       "vehicles",
@@ -266,16 +315,47 @@ export class TessieClient {
     );
   }
 
-  async getVehicleState(vin: string): Promise<TessieVehicleState> {
-    const key = this.cacheKey("state", vin);
+  /**
+   * Latest vehicle state. By default Tessie returns its last-known state so a sleeping vehicle is
+   * not woken; `useCache: false` requests live data and may wake it. `refresh` skips the client cache.
+   */
+  async getVehicleState(vin: string, options?: { useCache?: boolean; refresh?: boolean }): Promise<TessieVehicleState> {
+    const useCache = options?.useCache ?? true;
+    const key = useCache ? this.cacheKey("state", vin) : this.cacheKey("state", vin, "live");
+    if (options?.refresh) this.cache.delete(key);
     return this.cached(key, VEHICLE_STATE_TTL_MS, () =>
       this.withRetry(async () => {
-        const response = await this.client.get<TessieVehicleState>(`/${vin}/state`);
+        const response = await this.client.get<TessieVehicleState>(`/${vin}/state`, {
+          params: { use_cache: String(useCache) },
+        });
         return response.data;
       }, "getVehicleState"),
     );
   }
 
+  /**
+   * Sleep status only (asleep, waiting_for_sleep or awake). Much lighter than `getVehicleState` and
+   * never wakes the vehicle; `refresh` skips the client cache.
+   */
+  async getStatus(vin: string, options?: { refresh?: boolean }): Promise<TessieVehicleStatus> {
+    const key = this.cacheKey("status", vin);
+    if (options?.refresh) this.cache.delete(key);
+    return this.cached(key, VEHICLE_STATUS_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<TessieVehicleStatus>(`/${vin}/status`);
+        return response.data;
+      }, "getStatus"),
+    );
+  }
+
+  /**
+   * Tessie holds the wake request open until the car is awake (up to ~90s); `timeoutMs` caps how long
+   * this call waits, so callers can fall back to polling status within their own budget.
+   */
+  async wake(vin: string, options: { timeoutMs?: number; signal?: AbortSignal } = {}) {
+    return this.postForVin(vin, "wake", {}, "wake", { timeout: options.timeoutMs, signal: options.signal });
+  }
+
   async getVehicleBattery(vin: string): Promise<TessieBatteryState> {
     const key = this.cacheKey("battery", vin);
     return this.cached(key, BATTERY_TTL_MS, () =>
@@ -286,19 +366,58 @@ export class TessieClient {
     );
   }
 
+  async getBatteryHealth(options: DateRange & { onlyActive?: boolean } = {}): Promise<TessieBatteryHealth[]> {
+    const key = this.cacheKey("battery_health", "all", this.serializeParams(options));
+    return this.cached(key, BATTERY_HEALTH_TTL_MS, () =>
+      this.withRetry(async () => {
+        const params = rangeParams(options);
+        if (options.onlyActive !== undefined) params.only_active = String(options.onlyActive);
+        const response = await this.client.get<TessieBatteryHealth[] | { results: TessieBatteryHealth[] }>(
+          "/battery_health",
+          { params },
+        );
+        return assertResultsArray<TessieBatteryHealth>(response.data, "getBatteryHealth");
+      }, "getBatteryHealth"),
+    );
+  }
+
+  async getBatteryHealthMeasurements(
+    vin: string,
+    options: DateRange = {},
+  ): Promise<TessieBatteryHealthMeasurements> {
+    const key = this.cacheKey("battery_health", vin, this.serializeParams(options));
+    return this.cached(key, BATTERY_HEALTH_TTL_MS, () =>
+      this.withRetry(async () => {
+        const params = rangeParams(options);
+        const response = await this.client.get<{
+          result?: TessieBatteryHealth;
+          results: TessieBatteryHealthMeasurement[];
+        }>(`/${vin}/battery_health`, { params });
+        return {
+          result: response.data?.result,
+          results: assertResultsArray<TessieBatteryHealthMeasurement>(
+            response.data,
+            "getBatteryHealthMeasurements",
+          ),
+        };
+      }, "getBatteryHealthMeasurements"),
+    );
+  }
+
   async getHistoricalStates(
     vin: string,
     options: DateRange & { interval?: string },
-  ) {
+  ): Promise<TessieVehicleState[]> {
     const key = this.cacheKey("history", vin, this.serializeParams(options));
     return this.cached(key, HISTORICAL_STATE_TTL_MS, () =>
       this.withRetry(async () => {
-        const params: Record<string, string> = {};
-        if (options.start) params.start = options.start;
-        if (options.end) params.end = options.end;
+        const params = rangeParams(options);
         if (options.interval) params.interval = options.interval;
-        const response = await this.client.get<Record<string, unknown>[]>(`/${vin}/states`, { params });
-        return response.data;
+        const response = await this.client.get<TessieVehicleState[] | { results: TessieVehicleState[] }>(
+          `/${vin}/states`,
+          { params },
+        );
+        return assertResultsArray<TessieVehicleState>(response.data, "getHistoricalStates");
       }, "getHistoricalStates"),
     );
   }
@@ -310,9 +429,7 @@ export class TessieClient {
     const key = this.cacheKey("drives", vin, this.serializeParams(options));
     return this.cached(key, DRIVES_TTL_MS, () =>
       this.withRetry(async () => {
-        const params: Record<string, string> = {};
-        if (options.start) params.start = options.start;
-        if (options.end) params.end = options.end;
+        const params = rangeParams(options);
         if (options.limit !== undefined) {
           const bounded = Math.max(1, Math.min(options.limit, MAX_DRIVE_LIMIT));
           params.limit = String(bounded);
@@ -323,22 +440,333 @@ export class TessieClient {
     );
   }
 
-  async getDrivingPath(
+  async getCharges(
+    vin: string,
+    options: DateRange & { limit?: number; superchargersOnly?: boolean },
+  ): Promise<TessieCharge[]> {
+    const key = this.cacheKey("charges", vin, this.serializeParams(options));
+    return this.cached(key, CHARGES_TTL_MS, () =>
+      this.withRetry(async () => {
+        const params = rangeParams(options);
+        if (options.limit !== undefined) {
+          const bounded = Math.max(1, Math.min(options.limit, MAX_CHARGE_LIMIT));
+          params.limit = String(bounded);
+        }
+        if (options.superchargersOnly) params.superchargers_only = "true";
+        const response = await this.client.get<TessieCharge[] | { results: TessieCharge[] }>(`/${vin}/charges`, { params });
+        return assertResultsArray<TessieCharge>(response.data, "getCharges");
+      }, "getCharges"),
+    );
+  }
+
+  async setChargeCost(vin: string, chargeId: number | string, cost: number) {
+    return this.postForVin(vin, `charges/${encodeURIComponent(String(chargeId))}/set_cost`, { cost }, "setChargeCost");
+  }
+
+  /**
+   * Supercharger invoices across every vehicle on the account (fleet accounts only).
+   */
+  async getChargingInvoices(options: DateRange & { timezone?: string } = {}): Promise<TessieChargingInvoice[]> {
+    const key = this.cacheKey("charging_invoices", "all", this.serializeParams(options));
+    return this.cached(key, CHARGING_INVOICES_TTL_MS, () =>
+      this.withRetry(async () => {
+        const params = rangeParams(options);
+        if (options.timezone) params.timezone = options.timezone;
+        const response = await this.client.get<TessieChargingInvoice[] | { results: TessieChargingInvoice[] }>(
+          "/charging_invoices",
+          { params },
+        );
+        return assertResultsArray<TessieChargingInvoice>(response.data, "getChargingInvoices");
+      }, "getChargingInvoices"),
+    );
+  }
+
+  async getIdles(
     vin: string,
+    options: DateRange & { limit?: number },
+  ): Promise<TessieIdle[]> {
+    const key = this.cacheKey("idles", vin, this.serializeParams(options));
+    return this.cached(key, IDLES_TTL_MS, () =>
+      this.withRetry(async () => {
+        const params = rangeParams(options);
+        if (options.limit !== undefined) {
+          const bounded = Math.max(1, Math.min(options.limit, MAX_IDLE_LIMIT));
+          params.limit = String(bounded);
+        }
+        const response = await this.client.get<TessieIdle[] | { results: TessieIdle[] }>(`/${vin}/idles`, { params });
+        return assertResultsArray<TessieIdle>(response.data, "getIdles");
+      }, "getIdles"),
+    );
+  }
+
+  async getLastIdleState(vin: string): Promise<TessieVehicleState> {
+    const key = this.cacheKey("last_idle", vin);
+    return this.cached(key, LAST_IDLE_STATE_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<{ result?: TessieVehicleState } | TessieVehicleState>(
+          `/${vin}/last_idle_state`,
+        );
+        const data = response.data as { result?: TessieVehicleState };
+        return data?.result ?? (response.data as TessieVehicleState);
+      }, "getLastIdleState"),
+    );
+  }
+
+  /**
+   * Pages backwards through a range-filtered list that has no offset: each page moves `end` to just
+   * before the oldest item seen so far. `truncated` is set when a full page is followed by one that adds
+   * nothing new or does not move the cursor, or after MAX_RANGE_PAGES pages.
+   */
+  private async pageByRange<T>(
     options: DateRange,
-  ) {
+    pageSize: number,
+    fetchPage: (range: DateRange) => Promise<T[]>,
+    describe: (item: T) => { id: string; startedAt?: number | string },
+  ): Promise<{ items: T[]; truncated: boolean }> {
+    const items: T[] = [];
+    const seen = new Set<string>();
+    let end = options.end;
+    for (let page = 0; page < MAX_RANGE_PAGES; page += 1) {
+      const batch = await fetchPage({ start: options.start, end });
+      let added = 0;
+      let oldest: number | undefined;
+      for (const item of batch) {
+        const { id, startedAt } = describe(item);
+        if (!seen.has(id)) {
+          seen.add(id);
+          items.push(item);
+          added += 1;
+        }
+        const startedAtMs = toEpochMs(startedAt);
+        if (startedAtMs !== undefined && (oldest === undefined || startedAtMs < oldest)) oldest = startedAtMs;
+      }
+      if (batch.length < pageSize) return { items, truncated: false };
+      // a full page means more items may exist; give up rather than claim completeness if paging stalls
+      if (added === 0 || oldest === undefined) return { items, truncated: true };
+      const nextEnd = new Date(oldest - 1000).toISOString();
+      if (nextEnd === end) return { items, truncated: true };
+      end = nextEnd;
+    }
+    return { items, truncated: true };
+  }
+
+  /**
+   * Every drive in the range; see `pageByRange` for when `truncated` is set.
+   */
+  async getAllDrives(vin: string, options: DateRange): Promise<{ drives: TessieDrive[]; truncated: boolean }> {
+    const { items, truncated } = await this.pageByRange(
+      options,
+      MAX_DRIVE_LIMIT,
+      (range) => this.getDrives(vin, { ...range, limit: MAX_DRIVE_LIMIT }),
+      (drive) => ({
+        id: String(drive.id ?? drive.import_id ?? `${drive.started_at}:${drive.ended_at}`),
+        startedAt: drive.started_at ?? drive.start_date,
+      }),
+    );
+    return { drives: items, truncated };
+  }
+
+  /**
+   * Every charging session in the range; see `pageByRange` for when `truncated` is set.
+   */
+  async getAllCharges(
+    vin: string,
+    options: DateRange & { superchargersOnly?: boolean },
+  ): Promise<{ charges: TessieCharge[]; truncated: boolean }> {
+    const { items, truncated } = await this.pageByRange(
+      options,
+      MAX_CHARGE_LIMIT,
+      (range) =>
+        this.getCharges(vin, { ...range, limit: MAX_CHARGE_LIMIT, superchargersOnly: options.superchargersOnly }),
+      (charge) => ({ id: String(charge.id ?? `${charge.started_at}:${charge.ended_at}`), startedAt: charge.started_at }),
+    );
+    return { charges: items, truncated };
+  }
+
+  async getConsumption(vin: string): Promise<TessieConsumption> {
+    const key = this.cacheKey("consumption", vin);
+    return this.cached(key, CONSUMPTION_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<TessieConsumption>(`/${vin}/consumption_since_charge`);
+        return response.data;
+      }, "getConsumption"),
+    );
+  }
+
+  async getDrivingPath(vin: string, options: DateRange): Promise<TessiePathPoint[]> {
     const key = this.cacheKey("path", vin, this.serializeParams(options));
     return this.cached(key, DRIVING_PATH_TTL_MS, () =>
+      this.withRetry(async () => {
+        const params = rangeParams(options);
+        const response = await this.client.get<TessiePathPoint[] | { results: TessiePathPoint[] }>(`/${vin}/path`, {
+          params,
+        });
+        return assertResultsArray<TessiePathPoint>(response.data, "getDrivingPath");
+      }, "getDrivingPath"),
+    );
+  }
+
+  /**
+   * Tire pressure readings in bar. A single reading is returned as a one-item array so callers
+   * can treat ranged and latest-only responses the same way.
+   */
+  async getTirePressure(vin: string, options: DateRange = {}): Promise<TessieTirePressure[]> {
+    const key = this.cacheKey("tire_pressure", vin, this.serializeParams(options));
+    return this.cached(key, TIRE_PRESSURE_TTL_MS, () =>
+      this.withRetry(async () => {
+        // readings are always requested in bar; toTirePressureSummary converts to psi
+        const params = { ...rangeParams(options), pressure_format: "bar" };
+        const response = await this.client.get<TessieTirePressure | TessieTirePressure[] | { results: TessieTirePressure[] }>(
+          `/${vin}/tire_pressure`,
+          { params },
+        );
+        const data = response.data;
+        if (data && typeof data === "object" && !Array.isArray(data) && !("results" in data)) {
+          return [data];
+        }
+        return assertResultsArray<TessieTirePressure>(data, "getTirePressure");
+      }, "getTirePressure"),
+    );
+  }
+
+  async getLocation(vin: string): Promise<TessieLocation> {
+    const key = this.cacheKey("location", vin);
+    return this.cached(key, LOCATION_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<TessieLocation>(`/${vin}/location`);
+        return response.data;
+      }, "getLocation"),
+    );
+  }
+
+  async getWeather(vin: string): Promise<TessieWeather> {
+    const key = this.cacheKey("weather", vin);
+    return this.cached(key, WEATHER_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<TessieWeather>(`/${vin}/weather`);
+        return response.data;
+      }, "getWeather"),
+    );
+  }
+
+  /**
+   * Static map image of the vehicle's current location, returned as base64 for MCP image content.
+   */
+  async getMap(
+    vin: string,
+    options: { width?: number; height?: number; zoom?: number; markerSize?: number; style?: string } = {},
+  ): Promise<ImageContent> {
+    const key = this.cacheKey("map", vin, this.serializeParams(options));
+    return this.cached(key, MAP_TTL_MS, () =>
       this.withRetry(async () => {
         const params: Record<string, string> = {};
-        if (options.start) params.start = options.start;
-        if (options.end) params.end = options.end;
-        const response = await this.client.get<Record<string, unknown>[]>(`/${vin}/path`, { params });
+        if (options.width !== undefined) params.width = String(options.width);
+        if (options.height !== undefined) params.height = String(options.height);
+        if (options.zoom !== undefined) params.zoom = String(options.zoom);
+        if (options.markerSize !== undefined) params.marker_size = String(options.markerSize);
+        if (options.style) params.style = options.style;
+        const response = await this.client.get<ArrayBuffer>(`/${vin}/map`, { params, responseType: "arraybuffer" });
+        const contentType = String(response.headers?.["content-type"] ?? "image/png").split(";")[0];
+        if (!contentType.startsWith("image/")) {
+          throw new Error(`Unexpected response format from getMap (${contentType})`);
+        }
+        return { data: Buffer.from(response.data).toString("base64"), mimeType: contentType };
+      }, "getMap"),
+    );
+  }
+
+  async getFirmwareAlerts(vin: string): Promise<TessieFirmwareAlert[]> {
+    const key = this.cacheKey("firmware_alerts", vin);
+    return this.cached(key, FIRMWARE_ALERTS_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<TessieFirmwareAlert[] | { results: TessieFirmwareAlert[] }>(
+          `/${vin}/firmware_alerts`,
+        );
+        return assertResultsArray<TessieFirmwareAlert>(response.data, "getFirmwareAlerts");
+      }, "getFirmwareAlerts"),
+    );
+  }
+
+  async setDriveTag(vin: string, driveIds: Array<number | string>, tag: string) {
+    return this.postForVin(vin, "drives/set_tag", { drives: driveIds.join(","), tag }, "setDriveTag");
+  }
+
+  async getPlate(vin: string): Promise<string | undefined> {
+    const key = this.cacheKey("plate", vin);
+    return this.cached(key, PLATE_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<{ result?: string | null } | string>(`/${vin}/plate`);
+        const plate = typeof response.data === "string" ? response.data : response.data?.result;
+        return plate || undefined;
+      }, "getPlate"),
+    );
+  }
+
+  async setPlate(vin: string, plate: string) {
+    return this.postForVin(vin, "plate", { plate }, "setPlate");
+  }
+
+  async getDrivers(vin: string): Promise<TessieDriver[]> {
+    const key = this.cacheKey("drivers", vin);
+    return this.cached(key, ACCESS_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<TessieDriver[] | { results: TessieDriver[] }>(`/${vin}/drivers`);
+        return assertResultsArray<TessieDriver>(response.data, "getDrivers");
+      }, "getDrivers"),
+    );
+  }
+
+  async getInvitations(vin: string): Promise<TessieInvitation[]> {
+    const key = this.cacheKey("invitations", vin);
+    return this.cached(key, ACCESS_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<TessieInvitation[] | { results: TessieInvitation[] }>(
+          `/${vin}/invitations`,
+        );
+        return assertResultsArray<TessieInvitation>(response.data, "getInvitations");
+      }, "getInvitations"),
+    );
+  }
+
+  async createInvitation(vin: string): Promise<TessieInvitation> {
+    const data = await this.postForVin(vin, "invitations", {}, "createInvitation");
+    return ((data as { result?: TessieInvitation })?.result ?? data) as TessieInvitation;
+  }
+
+  async revokeInvitation(vin: string, invitationId: number | string) {
+    return this.postForVin(vin, `invitations/${encodeURIComponent(String(invitationId))}/revoke`, {}, "revokeInvitation");
+  }
+
+  async deleteDriver(vin: string, driverId: number | string) {
+    return this.postForVin(vin, `drivers/${encodeURIComponent(String(driverId))}/delete`, {}, "deleteDriver");
+  }
+
+  async getTelemetryConfig(vin: string): Promise<TessieTelemetryConfig> {
+    const key = this.cacheKey("telemetry_config", vin);
+    return this.cached(key, TELEMETRY_CONFIG_TTL_MS, () =>
+      this.withRetry(async () => {
+        const response = await this.client.get<TessieTelemetryConfig>(`/${vin}/fleet_telemetry_config`);
         return response.data;
-      }, "getDrivingPath"),
+      }, "getTelemetryConfig"),
     );
   }
 
+  /**
+   * Without `fields`, Tessie applies its recommended configuration.
+   */
+  async setTelemetryConfig(vin: string, fields?: Record<string, TessieTelemetryFieldConfig>) {
+    return this.postForVin(vin, "fleet_telemetry_config", fields ? { fields } : {}, "setTelemetryConfig");
+  }
+
+  async deleteTelemetryConfig(vin: string) {
+    const result = await this.withRetry(async () => {
+      const response = await this.client.delete<Record<string, unknown>>(`/${vin}/fleet_telemetry_config`);
+      return response.data;
+    }, "deleteTelemetryConfig");
+    this.invalidateVin(vin);
+    return result;
+  }
+
   async sendCommand(
     vin: string,
     endpoint: string,
@@ -1,6 +1,7 @@
 export interface TessieVehicleSummary {
   vin: string;
   display_name?: string;
+  plate?: string | null;
   state?: string;
   vehicle_state?: {
     vehicle_name?: string;
@@ -17,19 +18,49 @@ export interface TessieVehicleSummary {
   last_seen?: string;
 }
 
+export interface TessieVehicleStatus {
+  status?: "asleep" | "waiting_for_sleep" | "awake" | string;
+}
+
 export interface TessieVehicleState {
   display_name?: string;
+  state?: string;
   vehicle_state?: {
     vehicle_name?: string;
     locked?: boolean;
     sentry_mode?: boolean;
     odometer?: number;
+    car_version?: string;
+    software_update?: {
+      status?: string;
+      version?: string;
+      download_perc?: number;
+      install_perc?: number;
+      expected_duration_sec?: number;
+      scheduled_time_ms?: number;
+      warning_time_remaining_ms?: number;
+    };
   };
   charge_state?: {
     battery_level?: number;
     charging_state?: string;
     est_battery_range?: number;
     time_to_full_charge?: number;
+    scheduled_charging_mode?: string;
+    scheduled_charging_pending?: boolean;
+    scheduled_charging_start_time_minutes?: number;
+    scheduled_departure_time_minutes?: number;
+    preconditioning_enabled?: boolean;
+    preconditioning_times?: string;
+    off_peak_charging_enabled?: boolean;
+    off_peak_charging_times?: string;
+    off_peak_hours_end_time?: number;
+  };
+  charge_schedule_data?: {
+    charge_schedules?: TessieChargeSchedule[];
+  };
+  preconditioning_schedule_data?: {
+    precondition_schedules?: TessiePreconditionSchedule[];
   };
   climate_state?: {
     inside_temp?: number;
@@ -50,9 +81,35 @@ export interface TessieVehicleState {
   inside_temp?: number;
   outside_temp?: number;
   is_climate_on?: boolean;
+  odometer?: number;
   timestamp?: number;
 }
 
+export interface TessieChargeSchedule {
+  id?: number;
+  name?: string;
+  days_of_week?: number | string;
+  enabled?: boolean;
+  start_enabled?: boolean;
+  start_time?: number;
+  end_enabled?: boolean;
+  end_time?: number;
+  one_time?: boolean;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface TessiePreconditionSchedule {
+  id?: number;
+  name?: string;
+  days_of_week?: number | string;
+  enabled?: boolean;
+  precondition_time?: number;
+  one_time?: boolean;
+  latitude?: number;
+  longitude?: number;
+}
+
 export interface TessieBatteryState {
   battery_level?: number;
   battery_level_percent?: number;
@@ -60,6 +117,34 @@ export interface TessieBatteryState {
   range?: number;
   charging_state?: string;
   time_to_full_charge?: number;
+  timestamp?: number;
+}
+
+export interface TessieBatteryHealth {
+  vin?: string;
+  display_name?: string;
+  plate?: string | null;
+  odometer?: number;
+  max_range?: number;
+  max_ideal_range?: number;
+  original_max_range?: number;
+  capacity?: number;
+  original_capacity?: number;
+  degradation_percent?: number;
+  health_percent?: number;
+}
+
+export interface TessieBatteryHealthMeasurement {
+  timestamp?: number | string;
+  odometer?: number;
+  max_range?: number;
+  max_ideal_range?: number;
+  capacity?: number;
+}
+
+export interface TessieBatteryHealthMeasurements {
+  result?: TessieBatteryHealth;
+  results: TessieBatteryHealthMeasurement[];
 }
 
 export interface TessieDrive {
@@ -74,9 +159,156 @@ export interface TessieDrive {
   start_address?: string;
   end_address?: string;
   odometer_distance?: number;
+  starting_odometer?: number;
+  ending_odometer?: number;
   distance_miles?: number;
   distance?: number;
   energy_used?: number;
   average_speed?: number;
+  average_outside_temperature?: number;
   tag?: string | null;
 }
+
+export interface TessiePathPoint {
+  timestamp?: number;
+  latitude?: number | null;
+  longitude?: number | null;
+  heading?: number;
+  battery_level?: number;
+}
+
+export interface TessieCharge {
+  id?: number | string;
+  started_at?: number | string;
+  ended_at?: number | string;
+  location?: string;
+  saved_location?: string | null;
+  latitude?: number;
+  longitude?: number;
+  is_supercharger?: boolean;
+  is_fast_charger?: boolean;
+  odometer?: number;
+  energy_added?: number;
+  energy_used?: number;
+  miles_added?: number;
+  starting_battery?: number;
+  ending_battery?: number;
+  cost?: number | null;
+}
+
+export interface TessieIdle {
+  id?: number | string;
+  started_at?: number | string;
+  ended_at?: number | string;
+  location?: string;
+  saved_location?: string | null;
+  latitude?: number;
+  longitude?: number;
+  starting_battery?: number;
+  ending_battery?: number;
+  energy_used?: number;
+  rated_range_used?: number;
+  sentry_fraction?: number;
+  climate_fraction?: number;
+}
+
+export interface TessieConsumption {
+  last_charge_at?: number | string;
+  distance_driven?: number;
+  energy_used?: number;
+  energy_used_by_driving?: number;
+  battery_percent_used?: number;
+  battery_percent_used_by_driving?: number;
+  rated_range_used?: number;
+  rated_range_used_by_driving?: number;
+}
+
+export interface TessieTirePressure {
+  timestamp?: number | string;
+  front_left?: number;
+  front_left_status?: string;
+  front_right?: number;
+  front_right_status?: string;
+  rear_left?: number;
+  rear_left_status?: string;
+  rear_right?: number;
+  rear_right_status?: string;
+}
+
+export interface TessieLocation {
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+  saved_location?: string | null;
+}
+
+export interface TessieWeather {
+  location?: string;
+  condition?: string;
+  temperature?: number;
+  feels_like?: number;
+  humidity?: number;
+  visibility?: number;
+  pressure?: number;
+  sunrise?: number;
+  sunset?: number;
+  cloudiness?: number;
+  wind_speed?: number;
+  wind_direction?: number;
+}
+
+export interface TessieFirmwareAlert {
+  name?: string;
+  time?: number | string;
+  audience?: string[] | string;
+  user_text?: string;
+}
+
+export interface TessieDriver {
+  id?: number | string;
+  user_id?: number | string;
+  driver_first_name?: string;
+  driver_last_name?: string;
+  granular_access?: { hide_private?: boolean };
+}
+
+export interface TessieInvitation {
+  id?: number | string;
+  state?: string;
+  code?: string;
+  share_link?: string;
+  created_at?: string;
+  expires_at?: string;
+  revoked_at?: string | null;
+}
+
+export interface TessieChargingInvoice {
+  id?: number | string;
+  vin?: string;
+  invoice_number?: string;
+  location?: string;
+  started_at?: number | string;
+  ended_at?: number | string;
+  energy_used?: number;
+  cost?: number;
+  total_cost?: number;
+  currency?: string;
+}
+
+export interface TessieTelemetryFieldConfig {
+  interval_seconds?: number;
+  minimum_delta?: number;
+  resend_interval_seconds?: number;
+}
+
+export interface TessieTelemetryConfig {
+  synced?: boolean;
+  update_available?: boolean;
+  config?: {
+    hostname?: string;
+    port?: number;
+    exp?: number;
+    fields?: Record<string, TessieTelemetryFieldConfig>;
+    alert_types?: string[];
+  } | null;
+}
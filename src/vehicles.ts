@@ -0,0 +1,72 @@
+import { toVehicleListItem } from "./mappers.ts";
+import { TessieVehicleSummary } from "./types.ts";
+
+export const VIN_REGEX = /^[A-HJ-NPR-Z0-9]{17}$/i;
+const VIN_SUFFIX_REGEX = /^[A-HJ-NPR-Z0-9]{4,16}$/i;
+const DEFAULT_REFERENCES = ["default", "defaultvehicle"];
+
+function normalize(value?: string | null) {
+  return (value ?? "").toLowerCase().replace(/[\s-]/g, "");
+}
+
+function describe(vehicle: ReturnType<typeof toVehicleListItem>) {
+  const label = [vehicle.name, vehicle.plate].filter(Boolean).join(", ");
+  return label ? `${label} (${vehicle.vin})` : vehicle.vin;
+}
+
+/**
+ * Finds the vehicle a caller meant by VIN, license plate, display name (case, spaces and hyphens
+ * ignored) or VIN suffix. An omitted reference or "default vehicle" resolves to `defaultVehicle`,
+ * or to the only vehicle on single-vehicle accounts. Throws when nothing or more than one vehicle matches.
+ */
+export function resolveVehicle(
+  vehicles: TessieVehicleSummary[],
+  reference?: string,
+  options: { defaultVehicle?: string } = {},
+): ReturnType<typeof toVehicleListItem> {
+  const items = vehicles.map((vehicle) => toVehicleListItem(vehicle));
+  const wanted = normalize(reference);
+
+  if (!wanted || DEFAULT_REFERENCES.includes(wanted)) {
+    if (options.defaultVehicle) return resolveVehicle(vehicles, options.defaultVehicle);
+    if (items.length === 1) return items[0];
+    throw new Error(
+      `${items.length ? `The account has ${items.length} vehicles` : "No vehicles found"} and no default vehicle is configured. ` +
+        `Pass a VIN, plate or name: ${items.map(describe).join("; ") || "none"}.`,
+    );
+  }
+
+  let matches = items.filter(
+    (vehicle) => normalize(vehicle.vin) === wanted || normalize(vehicle.plate) === wanted || normalize(vehicle.name) === wanted,
+  );
+  if (matches.length === 0 && VIN_SUFFIX_REGEX.test(wanted)) {
+    matches = items.filter((vehicle) => normalize(vehicle.vin).endsWith(wanted));
+  }
+
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw new Error(
+      `"${reference}" matches ${matches.length} vehicles: ${matches.map(describe).join("; ")}. Use the VIN instead.`,
+    );
+  }
+  throw new Error(
+    `No vehicle matches "${reference}". Known vehicles: ${items.map(describe).join("; ") || "none"}.`,
+  );
+}
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight, preserving input order in the result.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
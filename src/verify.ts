@@ -0,0 +1,86 @@
+import { StateExpectation } from "./commands.ts";
+import { TessieClient } from "./tessie-client.ts";
+import { TessieVehicleState } from "./types.ts";
+
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+
+export type VerificationResult = {
+  status: "verified" | "mismatch" | "timeout" | "skipped";
+  attempts: number;
+  elapsed_ms: number;
+  checks: Array<StateExpectation & { observed: unknown; ok: boolean }>;
+  error?: string;
+};
+
+function readPath(state: unknown, path: string) {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+      state,
+    );
+}
+
+/**
+ * Compares a vehicle state against the expectations a command declared.
+ */
+export function checkExpectations(state: TessieVehicleState, expectations: StateExpectation[]) {
+  return expectations.map((expectation) => {
+    const observed = readPath(state, expectation.path);
+    let ok: boolean;
+    if ("oneOf" in expectation) {
+      ok = expectation.oneOf.includes(observed);
+    } else if (expectation.tolerance !== undefined) {
+      ok =
+        typeof observed === "number" &&
+        typeof expectation.equals === "number" &&
+        Math.abs(observed - expectation.equals) <= expectation.tolerance;
+    } else {
+      ok = observed === expectation.equals;
+    }
+    return { ...expectation, observed, ok };
+  });
+}
+
+/**
+ * Re-reads live state (bypassing every cache) until the expectations hold or `timeoutMs` elapses.
+ * `mismatch` means the car answered but never showed the expected state; `timeout` means no read succeeded.
+ */
+export async function verifyCommandState(
+  client: Pick<TessieClient, "getVehicleState">,
+  vin: string,
+  expectations: StateExpectation[],
+  options: { timeoutMs: number; pollIntervalMs?: number; signal?: AbortSignal },
+): Promise<VerificationResult> {
+  const startedAt = Date.now();
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  if (expectations.length === 0 || options.timeoutMs <= 0) {
+    return { status: "skipped", attempts: 0, elapsed_ms: 0, checks: [] };
+  }
+
+  let attempts = 0;
+  let checks: VerificationResult["checks"] | undefined;
+  let error: string | undefined;
+  while (!options.signal?.aborted) {
+    attempts += 1;
+    try {
+      const state = await client.getVehicleState(vin, { useCache: false, refresh: true });
+      checks = checkExpectations(state, expectations);
+      if (checks.every((check) => check.ok)) {
+        return { status: "verified", attempts, elapsed_ms: Date.now() - startedAt, checks };
+      }
+    } catch (readError) {
+      error = (readError as { message?: string })?.message ?? String(readError);
+    }
+    const remainingMs = options.timeoutMs - (Date.now() - startedAt);
+    if (remainingMs <= 0) break;
+    await new Promise((resolve) => setTimeout(resolve, Math.min(pollIntervalMs, remainingMs)));
+  }
+  return {
+    status: checks ? "mismatch" : "timeout",
+    attempts,
+    elapsed_ms: Date.now() - startedAt,
+    checks: checks ?? [],
+    error: checks ? undefined : error,
+  };
+}
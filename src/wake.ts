@@ -0,0 +1,80 @@
+import { McpError } from "./errors.ts";
+import { TessieClient } from "./tessie-client.ts";
+
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+// the wake request timed out or was cancelled; the car may still be waking, so keep polling status
+const UNCONFIRMED_WAKE_CODES = ["ECONNABORTED", "ETIMEDOUT", "ERR_CANCELED"];
+
+export type WakePhase = {
+  phase: "status" | "wake" | "poll" | "online" | "timeout";
+  status?: string;
+  attempt?: number;
+  elapsed_ms: number;
+};
+
+export type WakeResult = {
+  awake: boolean;
+  woke: boolean;
+  elapsed_ms: number;
+  phases: WakePhase[];
+};
+
+/**
+ * Makes sure the vehicle is awake before a command: checks status, issues a wake when it is not awake,
+ * then polls status until it reports awake or `timeoutMs` elapses. The wake request itself is bounded by
+ * `timeoutMs`; if it times out or reports `result: false` the car is still polled rather than failing.
+ * `onPhase` sees every phase as it happens.
+ */
+export async function wakeAndWait(
+  client: Pick<TessieClient, "getStatus" | "wake">,
+  vin: string,
+  options: {
+    timeoutMs: number;
+    pollIntervalMs?: number;
+    signal?: AbortSignal;
+    onPhase?: (phase: WakePhase) => void | Promise<void>;
+  },
+): Promise<WakeResult> {
+  const startedAt = Date.now();
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const phases: WakePhase[] = [];
+  const record = async (phase: Omit<WakePhase, "elapsed_ms">) => {
+    const entry = { ...phase, elapsed_ms: Date.now() - startedAt };
+    phases.push(entry);
+    await options.onPhase?.(entry);
+  };
+  const result = (awake: boolean, woke: boolean) => ({ awake, woke, elapsed_ms: Date.now() - startedAt, phases });
+
+  const initial = await client.getStatus(vin, { refresh: true });
+  await record({ phase: "status", status: initial.status });
+  if (initial.status === "awake") return result(true, false);
+
+  let confirmed: boolean;
+  try {
+    const response = await client.wake(vin, {
+      timeoutMs: Math.max(1, options.timeoutMs - (Date.now() - startedAt)),
+      signal: options.signal,
+    });
+    confirmed = response?.result !== false;
+  } catch (error) {
+    if (!UNCONFIRMED_WAKE_CODES.includes(String((error as McpError)?.details?.code))) throw error;
+    confirmed = false;
+  }
+  await record(confirmed ? { phase: "wake" } : { phase: "wake", status: "unconfirmed" });
+
+  let attempt = 0;
+  while (!options.signal?.aborted) {
+    attempt += 1;
+    const { status } = await client.getStatus(vin, { refresh: true });
+    await record({ phase: "poll", status, attempt });
+    if (status === "awake") {
+      await record({ phase: "online", status });
+      return result(true, true);
+    }
+    const remainingMs = options.timeoutMs - (Date.now() - startedAt);
+    if (remainingMs <= 0) break;
+    await new Promise((resolve) => setTimeout(resolve, Math.min(pollIntervalMs, remainingMs)));
+  }
+  await record({ phase: "timeout" });
+  return result(false, true);
+}
@@ -1,8 +1,15 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import { z } from "zod";
 import createServer, { getTool } from "../src/index.ts";
 
+const auditLogPath = join(mkdtempSync(join(tmpdir(), "tessie-audit-")), "audit.jsonl");
+
 describe("manage_vehicle_command validation", () => {
-  const server = createServer({ config: { accessToken: "test-key" } });
+  const server = createServer({ config: { accessToken: "test-key", auditLogPath } });
   const tool = getTool(server as any, "manage_vehicle_command");
 
   const vin = "5YJ3E1EA7KF317000";
@@ -41,14 +48,13 @@ describe("manage_vehicle_command validation", () => {
   });
 
   it("rejects seat level out of range", async () => {
-    const input = tool.inputSchema.parse({
-      vin,
-      operation: "set_seat_heating",
-      params: { seat_position: 0, seat_level: 5, confirm: true },
-    });
-    const result = await tool.callback(input);
-    const payload = JSON.parse(result.content[0].text);
-    expect(payload.message).toMatch(/seat_level/);
+    expect(() =>
+      tool.inputSchema.parse({
+        vin,
+        operation: "set_seat_heating",
+        params: { seat_position: 0, seat_level: 5, confirm: true },
+      }),
+    ).toThrow(/seat_level/);
   });
 
   it("requires speed_limit_pin for speed limit operations", async () => {
@@ -63,14 +69,13 @@ describe("manage_vehicle_command validation", () => {
   });
 
   it("rejects overheat temp out of range", async () => {
-    const input = tool.inputSchema.parse({
-      vin,
-      operation: "set_cabin_overheat_protection_temp",
-      params: { cabin_overheat_temp_c: 5, confirm: true },
-    });
-    const result = await tool.callback(input);
-    const payload = JSON.parse(result.content[0].text);
-    expect(payload.message).toMatch(/cabin_overheat_temp_c/);
+    expect(() =>
+      tool.inputSchema.parse({
+        vin,
+        operation: "set_cabin_overheat_protection_temp",
+        params: { cabin_overheat_temp_c: 5, confirm: true },
+      }),
+    ).toThrow(/cabin_overheat_temp_c/);
   });
 
   it("requires on/off flag for cabin overheat protection", async () => {
@@ -93,4 +98,141 @@ describe("manage_vehicle_command validation", () => {
       }),
     ).toThrow(/boolean/);
   });
+
+  it("rejects fields that belong to another operation", async () => {
+    expect(() =>
+      tool.inputSchema.parse({
+        vin,
+        operation: "set_scheduled_charging",
+        params: { enable: true, time_minutes: 120, speed_limit_pin: "1234", confirm: true },
+      }),
+    ).toThrow(/speed_limit_pin/);
+
+    // params valid for another operation still fail the chosen operation's own schema
+    const input = tool.inputSchema.parse({
+      vin,
+      operation: "set_scheduled_charging",
+      params: { speed_limit_pin: "1234", confirm: true },
+    });
+    const result = await tool.callback(input);
+    const payload = JSON.parse(result.content[0].text);
+    expect(payload.message).toMatch(/Invalid params for set_scheduled_charging/);
+    expect(payload.message).toMatch(/speed_limit_pin/);
+  });
+
+  it("rejects unknown params at the schema level", () => {
+    expect(() =>
+      tool.inputSchema.parse({
+        vin,
+        operation: "lock",
+        params: { charge_limit: 80, confirm: true },
+      }),
+    ).toThrow(/charge_limit/);
+  });
+
+  it("advertises per-operation params in the schema", () => {
+    const operationDescription = tool.inputSchema.shape.operation.description;
+    expect(operationDescription).toContain("set_climate_keeper_mode(climate_keeper_mode*)");
+    expect(operationDescription).toContain("schedule_software_update(offset_seconds)");
+  });
+
+  it("publishes one strict params option per operation group", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    const { tools } = await client.listTools();
+    await client.close();
+
+    const params = tools.find((listed) => listed.name === "manage_vehicle_command")!.inputSchema.properties!.params as any;
+    const charging = params.anyOf.find((option: any) => option.description === "Params for set_scheduled_charging.");
+    expect(Object.keys(charging.properties)).toEqual(["wait_for_completion", "confirm", "enable", "time_minutes"]);
+    expect(charging.required).toEqual(["enable"]);
+    expect(charging.additionalProperties).toEqual({ not: {} });
+    const pin = params.anyOf.find((option: any) => option.description?.includes("enable_speed_limit"));
+    expect(pin.description).toBe("Params for enable_speed_limit, disable_speed_limit, clear_speed_limit_pin.");
+    expect(JSON.stringify(params)).not.toContain("$ref");
+  });
+});
+
+describe("manage_vehicle_command payloads", () => {
+  const sendCommand = jest.fn().mockResolvedValue({ result: true });
+  const getStatus = jest.fn().mockResolvedValue({ status: "awake" });
+  const server = createServer({
+    config: { accessToken: "test-key", auditLogPath },
+    client: { sendCommand, getStatus } as any,
+  });
+  const tool = getTool(server as any, "manage_vehicle_command");
+  const vin = "5YJ3E1EA7KF317000";
+
+  const run = async (operation: string, params: Record<string, unknown>) => {
+    const result = await tool.callback(tool.inputSchema.parse({ vin, operation, params: { ...params, confirm: true }, verify_timeout_seconds: 0 }));
+    return JSON.parse(result.content[0].text);
+  };
+
+  beforeEach(() => sendCommand.mockClear());
+
+  it("maps typed fields to the documented Tessie payloads", async () => {
+    await run("set_scheduled_charging", { enable: true, time_minutes: 120 });
+    expect(sendCommand).toHaveBeenLastCalledWith(vin, "set_scheduled_charging", {
+      enable: true,
+      time: 120,
+      wait_for_completion: true,
+    });
+
+    await run("set_climate_keeper_mode", { climate_keeper_mode: "dog" });
+    expect(sendCommand).toHaveBeenLastCalledWith(vin, "set_climate_keeper_mode", {
+      mode: 2,
+      wait_for_completion: true,
+    });
+
+    await run("schedule_software_update", { offset_seconds: 3600 });
+    expect(sendCommand).toHaveBeenLastCalledWith(vin, "schedule_software_update", {
+      in_seconds: 3600,
+      wait_for_completion: true,
+    });
+
+    await run("set_temperature", { cabin_temp_c: 21.5 });
+    expect(sendCommand).toHaveBeenLastCalledWith(vin, "set_temperatures", {
+      temperature: 21.5,
+      wait_for_completion: true,
+    });
+
+    await run("enable_valet_mode", {});
+    expect(sendCommand).toHaveBeenLastCalledWith(vin, "enable_valet", { wait_for_completion: true });
+  });
+
+  it("builds charge and precondition schedule payloads", async () => {
+    await run("add_charge_schedule", {
+      days_of_week: ["Monday", "Tuesday"],
+      start_time_minutes: 1380,
+      latitude: 37.49,
+      longitude: -121.94,
+    });
+    expect(sendCommand).toHaveBeenLastCalledWith(vin, "add_charge_schedule", {
+      id: undefined,
+      days_of_week: "Monday,Tuesday",
+      enabled: true,
+      start_enabled: true,
+      start_time: 1380,
+      end_enabled: false,
+      end_time: undefined,
+      lat: 37.49,
+      lon: -121.94,
+      one_time: false,
+      wait_for_completion: true,
+    });
+
+    await run("remove_precondition_schedule", { schedule_id: 12 });
+    expect(sendCommand).toHaveBeenLastCalledWith(vin, "remove_precondition_schedule", {
+      id: 12,
+      wait_for_completion: true,
+    });
+  });
+
+  it("requires a schedule id to remove a schedule", async () => {
+    const payload = await run("remove_charge_schedule", {});
+    expect(payload.isError).toBe(true);
+    expect(payload.message).toMatch(/schedule_id/);
+    expect(sendCommand).not.toHaveBeenCalled();
+  });
 });
@@ -3,9 +3,16 @@ import {
   toStateSummary,
   toBatterySummary,
   toDriveSummary,
+  toChargeSummary,
+  toBatteryHealthSummary,
+  toIdleSummary,
+  toScheduleSummary,
+  toSoftwareUpdateSummary,
+  toTirePressureSummary,
 } from "../src/mappers.ts";
 import {
   TessieBatteryState,
+  TessieCharge,
   TessieDrive,
   TessieVehicleState,
   TessieVehicleSummary,
@@ -75,4 +82,109 @@ describe("mappers", () => {
     expect(summary.energy_used_kwh).toBe(4.2);
     expect(summary.tag).toBe("trip");
   });
+
+  it("maps charge summary with duration and supercharger flag", () => {
+    const charge: TessieCharge = {
+      id: 7,
+      started_at: 1704067200,
+      ended_at: 1704069000,
+      location: "Supercharger Fremont",
+      is_supercharger: true,
+      energy_added: 32.5,
+      cost: 14.2,
+      starting_battery: 20,
+      ending_battery: 65,
+    };
+    const summary = toChargeSummary(charge);
+    expect(summary.duration_minutes).toBe(30);
+    expect(summary.supercharger).toBe(true);
+    expect(summary.energy_added_kwh).toBe(32.5);
+    expect(summary.start_soc).toBe(20);
+    expect(summary.end_soc).toBe(65);
+  });
+
+  it("computes battery degradation and trend from measurements", () => {
+    const summary = toBatteryHealthSummary(
+      vin,
+      { max_range: 270, original_max_range: 300 },
+      [
+        { timestamp: 1704067200, odometer: 30000, max_range: 280 },
+        { timestamp: 1672531200, odometer: 10000, max_range: 300 },
+      ],
+    );
+    expect(summary.degradation_percent).toBe(10);
+    expect(summary.trend?.start_max_range).toBe(300);
+    expect(summary.trend?.end_max_range).toBe(280);
+    expect(summary.trend?.change_percent).toBe(-6.67);
+    expect(summary.trend?.change_per_10k_miles).toBe(-3.33);
+    expect(summary.trend?.direction).toBe("declining");
+  });
+
+  it("maps idle summary with drain rate and sentry usage", () => {
+    const summary = toIdleSummary({
+      id: 3,
+      started_at: "2024-01-01T00:00:00Z",
+      ended_at: "2024-01-01T12:00:00Z",
+      saved_location: "Office",
+      starting_battery: 80,
+      ending_battery: 77,
+      sentry_fraction: 0.75,
+      climate_fraction: 0,
+    });
+    expect(summary.location).toBe("Office");
+    expect(summary.hours_parked).toBe(12);
+    expect(summary.battery_lost_percent).toBe(3);
+    expect(summary.drain_percent_per_day).toBe(6);
+    expect(summary.sentry_percent_of_time).toBe(75);
+    expect(summary.climate_percent_of_time).toBe(0);
+  });
+
+  it("maps stored schedules with decoded days and times", () => {
+    const summary = toScheduleSummary(vin, {
+      charge_schedule_data: {
+        charge_schedules: [
+          { id: 11, days_of_week: 62, enabled: true, start_enabled: true, start_time: 1380, end_enabled: false },
+        ],
+      },
+      preconditioning_schedule_data: {
+        precondition_schedules: [{ id: 12, days_of_week: "Monday,Friday", enabled: true, precondition_time: 450 }],
+      },
+    });
+    expect(summary.charge_schedules[0]).toMatchObject({
+      id: 11,
+      days_of_week: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
+      start: "23:00",
+      end: undefined,
+    });
+    expect(summary.precondition_schedules[0]).toMatchObject({ days_of_week: ["Monday", "Friday"], ready_at: "07:30" });
+  });
+
+  it("does not report a slow leak when every corner drops together", () => {
+    const cold = { front_left: 2.6, front_right: 2.6, rear_left: 2.6, rear_right: 2.6 };
+    const warm = { front_left: 2.9, front_right: 2.9, rear_left: 2.9, rear_right: 2.9 };
+    const summary = toTirePressureSummary(vin, [{ timestamp: 2, ...cold }, { timestamp: 1, ...warm }], {
+      lowPsi: 40,
+      highPsi: 48,
+      leakDropPsi: 3,
+    });
+    expect(summary.corners.every((corner) => !corner.slow_leak)).toBe(true);
+    expect(summary.corners.every((corner) => corner.threshold === "low")).toBe(true);
+    expect(summary.alerts).toHaveLength(4);
+  });
+
+  it("holds off software updates while driving or downloading", () => {
+    const update = { status: "available", version: "2024.8.4" };
+    expect(
+      toSoftwareUpdateSummary(vin, { vehicle_state: { software_update: update }, drive_state: { shift_state: "D" } })
+        .recommendation.action,
+    ).toBe("wait");
+    expect(
+      toSoftwareUpdateSummary(vin, { vehicle_state: { software_update: { ...update, status: "downloading_wifi_wait" } } })
+        .recommendation.reason,
+    ).toContain("Wi-Fi");
+    expect(toSoftwareUpdateSummary(vin, { vehicle_state: { software_update: { status: "", version: " " } } })).toMatchObject({
+      update: undefined,
+      recommendation: { action: "none" },
+    });
+  });
 });
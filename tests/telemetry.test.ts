@@ -0,0 +1,209 @@
+import { WebSocketServer } from "ws";
+import createServer, { getTool } from "../src/index.ts";
+import { TelemetrySocket, TelemetryStream, decodeTelemetryValue } from "../src/telemetry.ts";
+
+const vin = "5YJ3E1EA7KF317000";
+
+class FakeSocket implements TelemetrySocket {
+  onopen: TelemetrySocket["onopen"] = null;
+  onmessage: TelemetrySocket["onmessage"] = null;
+  onclose: TelemetrySocket["onclose"] = null;
+  onerror: TelemetrySocket["onerror"] = null;
+  closed = false;
+
+  constructor(public url: string, public headers: Record<string, string>) {}
+
+  open() {
+    this.onopen?.();
+  }
+
+  send(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  close() {
+    this.closed = true;
+    this.onclose?.();
+  }
+}
+
+function makeStream() {
+  const sockets: FakeSocket[] = [];
+  const stream = new TelemetryStream("secret", {
+    socketFactory: (url, headers) => {
+      const socket = new FakeSocket(url, headers);
+      sockets.push(socket);
+      return socket;
+    },
+  });
+  return { stream, sockets };
+}
+
+describe("decodeTelemetryValue", () => {
+  it("decodes numeric strings, locations, enums and invalid values", () => {
+    expect(decodeTelemetryValue({ stringValue: "54.987" })).toBe(54.987);
+    expect(decodeTelemetryValue({ locationValue: { latitude: 37.4, longitude: -121.9 } })).toEqual({
+      latitude: 37.4,
+      longitude: -121.9,
+    });
+    expect(decodeTelemetryValue({ shiftStateValue: "ShiftStateP" })).toBe("ShiftStateP");
+    expect(decodeTelemetryValue({ booleanValue: true })).toBe(true);
+    expect(decodeTelemetryValue({ invalid: true })).toBeNull();
+  });
+});
+
+describe("TelemetryStream", () => {
+  it("keeps one connection per VIN and stores the latest values", () => {
+    const { stream, sockets } = makeStream();
+    stream.connect(vin);
+    stream.connect(vin);
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].url).toBe(`wss://streaming.tessie.com/${vin}`);
+    expect(sockets[0].headers).toEqual({ Authorization: "Bearer secret" });
+
+    sockets[0].open();
+    sockets[0].send({
+      data: [
+        { key: "Soc", value: { stringValue: "54.987" } },
+        { key: "Odometer", value: { stringValue: "11270.940" } },
+      ],
+      createdAt: "2024-08-01T00:44:39Z",
+      vin,
+    });
+    sockets[0].send({ data: [{ key: "Soc", value: { stringValue: "55.1" } }], createdAt: "2024-08-01T00:45:00Z", vin });
+
+    const snapshot = stream.getSnapshot(vin);
+    expect(snapshot?.socket).toBe("open");
+    expect(snapshot?.fields.Soc).toEqual({ value: 55.1, updated_at: "2024-08-01T00:45:00Z" });
+    expect(snapshot?.fields.Odometer.value).toBe(11270.94);
+    stream.close();
+  });
+
+  it("records alerts, stream errors and connectivity status", () => {
+    const { stream, sockets } = makeStream();
+    stream.connect(vin);
+    sockets[0].send({
+      alerts: [
+        { name: "VCFRONT_a361_washerFluidLowMomentary", audiences: ["Customer"], startedAt: "a", endedAt: "b" },
+        { name: "APP_w269_autopilotLimited", audiences: ["Customer"], startedAt: "c" },
+      ],
+      vin,
+    });
+    sockets[0].send({ errors: [{ name: "unsupported_field", createdAt: "d", tags: { field_name: "X" } }], vin });
+    sockets[0].send({ vin, connectionId: "1", status: "DISCONNECTED", createdAt: "e" });
+
+    expect(stream.getAlerts(vin)).toHaveLength(2);
+    expect(stream.getAlerts(vin, { activeOnly: true }).map((alert) => alert.name)).toEqual([
+      "APP_w269_autopilotLimited",
+    ]);
+    const snapshot = stream.getSnapshot(vin);
+    expect(snapshot?.errors[0].name).toBe("unsupported_field");
+    expect(snapshot?.vehicle_connectivity).toBe("DISCONNECTED");
+    stream.close();
+  });
+
+  it("reconnects after an unexpected close but not after disconnect", () => {
+    jest.useFakeTimers();
+    const { stream, sockets } = makeStream();
+    stream.connect(vin);
+    sockets[0].onclose?.();
+    jest.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(2);
+
+    stream.disconnect(vin);
+    expect(sockets[1].closed).toBe(true);
+    jest.advanceTimersByTime(60000);
+    expect(sockets).toHaveLength(2);
+    jest.useRealTimers();
+  });
+
+  it("closes a stream that is not read within the idle timeout", () => {
+    jest.useFakeTimers();
+    const sockets: FakeSocket[] = [];
+    const stream = new TelemetryStream("secret", {
+      idleTimeoutMs: 60000,
+      socketFactory: (url, headers) => {
+        const socket = new FakeSocket(url, headers);
+        sockets.push(socket);
+        return socket;
+      },
+    });
+    stream.connect(vin);
+    sockets[0].open();
+    jest.advanceTimersByTime(50000);
+    stream.getSnapshot(vin);
+    jest.advanceTimersByTime(50000);
+    expect(sockets[0].closed).toBe(false);
+
+    jest.advanceTimersByTime(10000);
+    expect(sockets[0].closed).toBe(true);
+    expect(stream.isConnected(vin)).toBe(false);
+
+    stream.connect(vin);
+    expect(sockets).toHaveLength(2);
+    stream.close();
+    jest.useRealTimers();
+  });
+
+  it("stops reconnecting after repeated connections that deliver no data", () => {
+    jest.useFakeTimers();
+    const { stream, sockets } = makeStream();
+    stream.connect(vin);
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      sockets[sockets.length - 1].open();
+      sockets[sockets.length - 1].onclose?.();
+      jest.advanceTimersByTime(60000);
+    }
+    expect(sockets).toHaveLength(5);
+    jest.advanceTimersByTime(600000);
+    expect(sockets).toHaveLength(5);
+    expect(stream.getSnapshot(vin)?.errors[0].name).toBe("stream_stopped");
+
+    stream.connect(vin);
+    expect(sockets).toHaveLength(6);
+    stream.close();
+    jest.useRealTimers();
+  });
+
+  it("connects with the default ws client and sends the Authorization header", async () => {
+    const server = new WebSocketServer({ port: 0 });
+    await new Promise((resolve) => server.once("listening", resolve));
+    const authorization = new Promise<string | undefined>((resolve) =>
+      server.once("connection", (socket, request) => {
+        socket.send(JSON.stringify({ data: [{ key: "Soc", value: { stringValue: "61" } }], vin }));
+        resolve(request.headers.authorization);
+      }),
+    );
+    const stream = new TelemetryStream("secret", { baseUrl: `ws://127.0.0.1:${(server.address() as any).port}` });
+
+    stream.connect(vin);
+    expect(await authorization).toBe("Bearer secret");
+    for (let i = 0; i < 50 && !stream.getSnapshot(vin)?.fields.Soc; i += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(stream.getSnapshot(vin)?.fields.Soc.value).toBe(61);
+
+    stream.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+});
+
+describe("telemetry tools", () => {
+  it("get_telemetry_snapshot reads the stream without calling the REST client", async () => {
+    const { stream, sockets } = makeStream();
+    const client = { getVehicleState: jest.fn() };
+    const server = createServer({ config: { accessToken: "test" }, client: client as any, telemetry: stream });
+    const tool = getTool(server as any, "get_telemetry_snapshot");
+
+    await tool.callback(tool.inputSchema.parse({ vin }));
+    sockets[0].open();
+    sockets[0].send({ data: [{ key: "Soc", value: { stringValue: "80" } }], createdAt: "t", vin });
+
+    const result = await tool.callback(tool.inputSchema.parse({ vin }));
+    const payload = JSON.parse(result.content[0].text);
+    expect(payload.socket).toBe("open");
+    expect(payload.summary.battery_level).toBe(80);
+    expect(client.getVehicleState).not.toHaveBeenCalled();
+    stream.close();
+  });
+});
@@ -1,3 +1,4 @@
+import { sanitizeMetaDeep } from "../src/sanitize.ts";
 import { TessieClient } from "../src/tessie-client.ts";
 
 describe("TessieClient guards and bounds", () => {
@@ -16,6 +17,83 @@ describe("TessieClient guards and bounds", () => {
     });
   });
 
+  it("drops sensitive keys from log metadata and redacts them for audit records", () => {
+    const meta = { context: "getDrives", headers: { Authorization: "Bearer secret" }, token: "t", nested: { api_key: "k", pin: "1234", vin: "VIN123" } };
+    expect(sanitizeMetaDeep(meta)).toEqual({ context: "getDrives", nested: { vin: "VIN123" } });
+    expect(sanitizeMetaDeep(meta, { redact: true })).toEqual({
+      context: "getDrives",
+      headers: "[REDACTED]",
+      token: "[REDACTED]",
+      nested: { api_key: "[REDACTED]", pin: "[REDACTED]", vin: "VIN123" },
+    });
+  });
+
+  it("sends charge date filters as from/to unix seconds", async () => {
+    const client = new TessieClient("secret");
+    const getMock = jest.fn().mockResolvedValue({ data: { results: [] } });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    await client.getCharges("VIN123", { start: "2024-01-01T00:00:00Z", end: "2024-01-31T00:00:00Z", limit: 10 });
+    expect(getMock).toHaveBeenCalledWith("/VIN123/charges", {
+      params: { from: "1704067200", to: "1706659200", limit: "10" },
+    });
+  });
+
+  it("rejects unparseable range timestamps", async () => {
+    const client = new TessieClient("secret");
+    const getMock = jest.fn();
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    await expect(client.getCharges("VIN123", { start: "last tuesday" })).rejects.toMatchObject({
+      message: expect.stringContaining("Invalid start timestamp"),
+    });
+    expect(getMock).not.toHaveBeenCalled();
+  });
+
+  it("sends battery health date filters as from/to unix seconds", async () => {
+    const client = new TessieClient("secret");
+    const getMock = jest.fn().mockResolvedValue({ data: { results: [] } });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    await client.getBatteryHealth({ start: "2024-01-01T00:00:00Z", onlyActive: true });
+    await client.getBatteryHealthMeasurements("VIN123", { end: "2024-01-31T00:00:00Z" });
+    expect(getMock).toHaveBeenCalledWith("/battery_health", { params: { from: "1704067200", only_active: "true" } });
+    expect(getMock).toHaveBeenCalledWith("/VIN123/battery_health", { params: { to: "1706659200" } });
+  });
+
+  it("sends idle date filters as from/to unix seconds", async () => {
+    const client = new TessieClient("secret");
+    const getMock = jest.fn().mockResolvedValue({ data: { results: [] } });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    await client.getIdles("VIN123", { start: "2024-01-01T00:00:00Z", end: "2024-01-31T00:00:00Z", limit: 5 });
+    expect(getMock).toHaveBeenCalledWith("/VIN123/idles", {
+      params: { from: "1704067200", to: "1706659200", limit: "5" },
+    });
+  });
+
+  it("sends charging invoice date filters as from/to unix seconds with the time zone", async () => {
+    const client = new TessieClient("secret");
+    const getMock = jest.fn().mockResolvedValue({ data: { results: [] } });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    await client.getChargingInvoices({ start: "2024-01-01T00:00:00Z", end: "2024-01-31T00:00:00Z", timezone: "Europe/Berlin" });
+    expect(getMock).toHaveBeenCalledWith("/charging_invoices", {
+      params: { from: "1704067200", to: "1706659200", timezone: "Europe/Berlin" },
+    });
+  });
+
+  it("requests tire pressure history with from/to unix seconds in bar", async () => {
+    const client = new TessieClient("secret");
+    const getMock = jest.fn().mockResolvedValue({ data: { results: [] } });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    await client.getTirePressure("VIN123", { start: "2024-01-01T00:00:00Z", end: "2024-01-08T00:00:00Z" });
+    expect(getMock).toHaveBeenCalledWith("/VIN123/tire_pressure", {
+      params: { from: "1704067200", to: "1704672000", pressure_format: "bar" },
+    });
+  });
+
   it("caps drive limit to the maximum allowed", async () => {
     const client = new TessieClient("secret");
     const getMock = jest.fn().mockImplementation((_url: string, { params }: any) => {
@@ -31,6 +109,104 @@ describe("TessieClient guards and bounds", () => {
     expect(res).toEqual([]);
   });
 
+  it("pages through drives beyond the per-request limit", async () => {
+    const client = new TessieClient("secret");
+    const page = (offset: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({ id: offset + i, started_at: 1704067200 - (offset + i) * 3600 }));
+    const getMock = jest
+      .fn()
+      .mockResolvedValueOnce({ data: { results: page(0, 100) } })
+      .mockResolvedValueOnce({ data: { results: page(100, 30) } });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    const res = await client.getAllDrives("VIN123", { start: "2023-01-01T00:00:00Z" });
+    expect(res.drives).toHaveLength(130);
+    expect(res.truncated).toBe(false);
+    expect(getMock).toHaveBeenCalledTimes(2);
+    expect(getMock.mock.calls[0][1].params).toEqual({ from: "1672531200", limit: "100" });
+    expect(getMock.mock.calls[1][1].params).toEqual({
+      from: "1672531200",
+      to: String(1704067200 - 99 * 3600 - 1),
+      limit: "100",
+    });
+  });
+
+  it("reports truncation when the drives endpoint ignores the range cursor", async () => {
+    const client = new TessieClient("secret");
+    const fullPage = Array.from({ length: 100 }, (_, i) => ({ id: i, started_at: 1704067200 - i * 3600 }));
+    const getMock = jest.fn().mockResolvedValue({ data: { results: fullPage } });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    const res = await client.getAllDrives("VIN123", { start: "2023-01-01T00:00:00Z" });
+    expect(res.drives).toHaveLength(100);
+    expect(res.truncated).toBe(true);
+    expect(getMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("pages every charge in the range for totals", async () => {
+    const client = new TessieClient("secret");
+    const page = (count: number, offset: number) =>
+      Array.from({ length: count }, (_, i) => ({ id: offset + i, started_at: 1704067200 - (offset + i) * 3600 }));
+    const getMock = jest
+      .fn()
+      .mockResolvedValueOnce({ data: { results: page(100, 0) } })
+      .mockResolvedValueOnce({ data: { results: page(5, 100) } });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    const res = await client.getAllCharges("VIN123", { start: "2023-01-01T00:00:00Z", superchargersOnly: true });
+    expect(res.charges).toHaveLength(105);
+    expect(res.truncated).toBe(false);
+    expect(getMock.mock.calls[1][1].params).toEqual({
+      from: "1672531200",
+      to: String(1704067200 - 99 * 3600 - 1),
+      limit: "100",
+      superchargers_only: "true",
+    });
+  });
+
+  it("returns map images as base64 with the response content type", async () => {
+    const client = new TessieClient("secret");
+    const getMock = jest.fn().mockResolvedValue({
+      data: Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+      headers: { "content-type": "image/png" },
+    });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    const image = await client.getMap("VIN123", { width: 400, markerSize: 20 });
+    expect(image).toEqual({ data: "iVBORw==", mimeType: "image/png" });
+    expect(getMock).toHaveBeenCalledWith("/VIN123/map", {
+      params: { width: "400", marker_size: "20" },
+      responseType: "arraybuffer",
+    });
+  });
+
+  it("requests cached state unless a live read is asked for", async () => {
+    const client = new TessieClient("secret");
+    const getMock = jest.fn().mockResolvedValue({ data: {} });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    await client.getVehicleState("VIN123");
+    await client.getVehicleState("VIN123", { useCache: false });
+    expect(getMock.mock.calls[0][1].params).toEqual({ use_cache: "true" });
+    expect(getMock.mock.calls[1][1].params).toEqual({ use_cache: "false" });
+    expect((client as any).cache.has("state:VIN123:live")).toBe(true);
+  });
+
+  it("reads sleep status from the status endpoint and refreshes on request", async () => {
+    const client = new TessieClient("secret");
+    const getMock = jest
+      .fn()
+      .mockResolvedValueOnce({ data: { status: "asleep" } })
+      .mockResolvedValueOnce({ data: { status: "awake" } });
+    (client as any).client = { get: getMock, post: jest.fn() };
+
+    expect(await client.getStatus("VIN123")).toEqual({ status: "asleep" });
+    expect(await client.getStatus("VIN123")).toEqual({ status: "asleep" });
+    expect(await client.getStatus("VIN123", { refresh: true })).toEqual({ status: "awake" });
+    expect(getMock).toHaveBeenCalledTimes(2);
+    expect(getMock).toHaveBeenCalledWith("/VIN123/status");
+  });
+
   it("caches listVehicles responses until TTL expires", async () => {
     jest.useFakeTimers();
     const client = new TessieClient("secret");
@@ -126,10 +302,10 @@ describe("TessieClient guards and bounds", () => {
     const getMock = jest.fn().mockResolvedValue({ data: [] });
     (client as any).client = { get: getMock, post: jest.fn() };
 
-    await client.getHistoricalStates("VIN1", { start: "a", end: "b" });
-    await client.getHistoricalStates("VIN1", { start: "a", end: "b" });
-    await client.getDrivingPath("VIN1", { start: "a", end: "b" });
-    await client.getDrivingPath("VIN1", { start: "a", end: "b" });
+    await client.getHistoricalStates("VIN1", { start: "2024-01-01T00:00:00Z", end: "2024-01-02T00:00:00Z" });
+    await client.getHistoricalStates("VIN1", { start: "2024-01-01T00:00:00Z", end: "2024-01-02T00:00:00Z" });
+    await client.getDrivingPath("VIN1", { start: "2024-01-01T00:00:00Z", end: "2024-01-02T00:00:00Z" });
+    await client.getDrivingPath("VIN1", { start: "2024-01-01T00:00:00Z", end: "2024-01-02T00:00:00Z" });
 
     expect(getMock).toHaveBeenCalledTimes(2);
   });
@@ -1,5 +1,16 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CommandAuditLog } from "../src/audit.ts";
 import createServer, { getTool } from "../src/index.ts";
-import { TessieBatteryState, TessieDrive, TessieVehicleState, TessieVehicleSummary } from "../src/types.ts";
+import { TessieClient } from "../src/tessie-client.ts";
+import {
+  TessieBatteryState,
+  TessieCharge,
+  TessieDrive,
+  TessieVehicleState,
+  TessieVehicleSummary,
+} from "../src/types.ts";
 
 const vin = "5YJ3E1EA7KF317000";
 
@@ -15,8 +26,9 @@ function makeInvoke(server: any) {
 
 describe("tool handlers with mocked client", () => {
   const vehicles: TessieVehicleSummary[] = [
-    { vin, display_name: "Car 1", state: "online" },
+    { vin, display_name: "Car 1", plate: "7ABC123", state: "online" },
     { vin: "5YJ3E1EA7KF317001", display_name: "Car 2", state: "asleep" },
+    { vin: "5YJ3E1EA7KF317002", display_name: "Car 2", state: "asleep" },
   ];
 
   const state: TessieVehicleState = {
@@ -36,9 +48,15 @@ describe("tool handlers with mocked client", () => {
   };
 
   const drives: TessieDrive[] = [
-    { id: 1, started_at: "2024-01-01T00:00:00Z", ended_at: "2024-01-01T01:00:00Z", odometer_distance: 10 },
-    { id: 2, started_at: "2024-01-02T00:00:00Z", ended_at: "2024-01-02T01:00:00Z", odometer_distance: 20 },
-    { id: 3, started_at: "2024-01-03T00:00:00Z", ended_at: "2024-01-03T01:00:00Z", odometer_distance: 30 },
+    { id: 1, started_at: "2024-01-01T00:00:00Z", ended_at: "2024-01-01T01:00:00Z", odometer_distance: 10, energy_used: 3, average_outside_temperature: -5 },
+    { id: 2, started_at: "2024-01-02T00:00:00Z", ended_at: "2024-01-02T01:00:00Z", odometer_distance: 20, energy_used: 5, average_outside_temperature: 15 },
+    { id: 3, started_at: "2024-01-03T00:00:00Z", ended_at: "2024-01-03T01:00:00Z", odometer_distance: 30, energy_used: 9, average_outside_temperature: 16 },
+  ];
+
+  const charges: TessieCharge[] = [
+    { id: 1, started_at: 1704067200, ended_at: 1704070800, is_supercharger: true, energy_added: 40.1, cost: 18.2 },
+    { id: 2, started_at: 1704153600, ended_at: 1704182400, is_supercharger: false, energy_added: 30.2, cost: 4.1 },
+    { id: 3, started_at: 1704240000, ended_at: 1704268800, is_supercharger: false, energy_added: 10.1 },
   ];
 
   const mockClient = {
@@ -46,20 +64,100 @@ describe("tool handlers with mocked client", () => {
     getVehicleState: jest.fn().mockResolvedValue(state),
     getVehicleBattery: jest.fn().mockResolvedValue(battery),
     getDrives: jest.fn().mockResolvedValue(drives),
+    getAllDrives: jest.fn().mockResolvedValue({ drives, truncated: false }),
     getDrivingPath: jest.fn().mockResolvedValue([]),
+    getHistoricalStates: jest.fn().mockResolvedValue(
+      Array.from({ length: 250 }, (_, i) => ({
+        timestamp: 1704067200 + i * 60,
+        battery_level: 90 - Math.floor(i / 10),
+        odometer: 1000 + i * 0.5,
+      })),
+    ),
+    getCharges: jest.fn().mockResolvedValue(charges),
+    getAllCharges: jest.fn().mockResolvedValue({ charges, truncated: false }),
+    getConsumption: jest.fn().mockResolvedValue({ distance_driven: 60, energy_used: 20, energy_used_by_driving: 15 }),
+    getIdles: jest.fn().mockResolvedValue([
+      { id: 1, started_at: 1704067200, ended_at: 1704110400, starting_battery: 80, ending_battery: 74, sentry_fraction: 1 },
+      { id: 2, started_at: 1704153600, ended_at: 1704196800, starting_battery: 74, ending_battery: 73, sentry_fraction: 0 },
+    ]),
+    getLastIdleState: jest.fn().mockResolvedValue(state),
+    getBatteryHealth: jest.fn().mockResolvedValue([
+      { vin, max_range: 285, original_max_range: 300 },
+      { vin: "5YJ3E1EA7KF317001", max_range: 299, original_max_range: 300 },
+      { vin: "5YJ3E1EA7KF317002", max_range: 298, original_max_range: 300 },
+    ]),
     sendCommand: jest.fn().mockResolvedValue({ result: true }),
+    getStatus: jest.fn().mockResolvedValue({ status: "awake" }),
+    wake: jest.fn().mockResolvedValue({ result: true }),
+    getTirePressure: jest.fn().mockResolvedValue([
+      { timestamp: 1704326400, front_left: 2.62, front_right: 2.9, rear_left: 2.9, rear_right: 2.9 },
+      { timestamp: 1704067200, front_left: 2.9, front_right: 2.93, rear_left: 2.9, rear_right: 2.9 },
+      { timestamp: 1704153600, front_left: 2.88, front_right: 2.91, rear_left: 2.9, rear_right: 2.9 },
+    ]),
+    getLocation: jest.fn().mockResolvedValue({
+      latitude: 37.49,
+      longitude: -121.94,
+      address: "45500 Fremont Blvd, Fremont, CA",
+      saved_location: "Work",
+    }),
+    getWeather: jest.fn().mockResolvedValue({ location: "Fremont", condition: "Clear", temperature: 2.5, feels_like: 0.4 }),
+    getMap: jest.fn().mockResolvedValue({ data: "iVBORw0KGgo=", mimeType: "image/png" }),
+    getFirmwareAlerts: jest.fn().mockResolvedValue([
+      { name: "GTW_w109_swUpdateAvailable", time: "2024-01-02T10:00:00Z", audience: ["customer"], user_text: "Update ready" },
+    ]),
+    getDrivers: jest.fn().mockResolvedValue([{ id: 7, driver_first_name: "Sam", driver_last_name: "Lee" }]),
+    getInvitations: jest.fn().mockResolvedValue([{ id: 9, state: "pending", share_link: "https://tesla.com/x" }]),
+    createInvitation: jest.fn().mockResolvedValue({ id: 10, state: "pending", share_link: "https://tesla.com/y" }),
+    revokeInvitation: jest.fn().mockResolvedValue({ result: true }),
+    deleteDriver: jest.fn().mockResolvedValue({ result: true }),
+    setChargeCost: jest.fn().mockResolvedValue({ result: true }),
+    getChargingInvoices: jest.fn().mockResolvedValue([
+      { id: "a", vin, energy_used: 40, total_cost: 18.5, currency: "USD" },
+      { id: "b", vin, energy_used: 20.5, total_cost: 9.25, currency: "USD" },
+      { id: "c", vin: "5YJ3E1EA7KF317001", energy_used: 30, total_cost: 12, currency: "EUR" },
+    ]),
+    getPlate: jest.fn().mockResolvedValue(undefined),
+    setPlate: jest.fn().mockResolvedValue({ result: true }),
+    setDriveTag: jest.fn().mockResolvedValue({ result: true }),
+    getTelemetryConfig: jest.fn().mockResolvedValue({
+      synced: true,
+      update_available: false,
+      config: { exp: 1735689600, fields: { VehicleSpeed: { interval_seconds: 10 }, Soc: { interval_seconds: 60 } } },
+    }),
+    setTelemetryConfig: jest.fn().mockResolvedValue({ result: true }),
+    deleteTelemetryConfig: jest.fn().mockResolvedValue({ updated_vehicles: 1 }),
   };
 
+  const auditLogPath = join(mkdtempSync(join(tmpdir(), "tessie-audit-")), "audit.jsonl");
   const server = createServer({
-    config: { accessToken: "test" },
+    config: { accessToken: "test", auditLogPath },
     client: mockClient as any,
   });
   const invoke = makeInvoke(server);
 
   it("get_active_context returns mapped vehicles", async () => {
     const res = await invoke("get_active_context", { only_active: false });
-    expect(res.vehicles.items.length).toBe(2);
-    expect(res.vehicles.items[0].vin).toBe(vin);
+    expect(res.vehicles.items.length).toBe(3);
+    expect(res.vehicles.items[0]).toMatchObject({ vin, plate: "7ABC123" });
+  });
+
+  it("get_active_context fills plates the vehicle list omits", async () => {
+    mockClient.getPlate.mockImplementation(async (plateVin: string) =>
+      plateVin === "5YJ3E1EA7KF317001" ? "9DEF456" : undefined,
+    );
+    const res = await invoke("get_active_context", {});
+    expect(res.vehicles.items[1]).toMatchObject({ vin: "5YJ3E1EA7KF317001", plate: "9DEF456" });
+    expect(mockClient.getPlate).not.toHaveBeenCalledWith(vin);
+    mockClient.getPlate.mockResolvedValue(undefined);
+  });
+
+  it("get_vehicle_status reports sleep status without reading state", async () => {
+    mockClient.getVehicleState.mockClear();
+    mockClient.getStatus.mockResolvedValueOnce({ status: "asleep" });
+    const res = await invoke("get_vehicle_status", { vin });
+    expect(res).toMatchObject({ vin, status: "asleep", awake: false });
+    expect(res.guidance).toContain("without waking");
+    expect(mockClient.getVehicleState).not.toHaveBeenCalled();
   });
 
   it("fetch_vehicle_state maps summary fields", async () => {
@@ -79,4 +177,530 @@ describe("tool handlers with mocked client", () => {
     const res = await invoke("search_drives", { vin, limit: 2 });
     expect(res.drives.items.length).toBe(2);
   });
+
+  it("search_charges totals Supercharger and other sessions", async () => {
+    const res = await invoke("search_charges", { vin, limit: 2 });
+    expect(mockClient.getAllCharges).toHaveBeenCalledWith(vin, { start: undefined, end: undefined, superchargersOnly: undefined });
+    expect(res.charges.items.length).toBe(2);
+    expect(res.charges.note).toBe("Showing 2 of 3 items.");
+    expect(res.truncated).toBe(false);
+    expect(res.totals.supercharger).toEqual({ sessions: 1, energy_added_kwh: 40.1, cost: 18.2 });
+    expect(res.totals.other).toEqual({ sessions: 2, energy_added_kwh: 40.3, cost: 4.1 });
+  });
+
+  it("get_battery_health flags packs degrading faster than the fleet", async () => {
+    const res = await invoke("get_battery_health", {});
+    expect(res.fleet_average_degradation_percent).toBe(2);
+    expect(res.outliers).toEqual([vin]);
+    expect(res.vehicles.items[0].vin).toBe(vin);
+  });
+
+  it("get_historical_states downsamples to the point cap", async () => {
+    const res = await invoke("get_historical_states", { vin });
+    expect(res.summary.total_points).toBe(250);
+    expect(res.points.length).toBe(100);
+    expect(res.points[0].timestamp).toBe(1704067200);
+    expect(res.points[99].timestamp).toBe(1704067200 + 249 * 60);
+    expect(res.summary.battery_change).toBe(-24);
+    expect(res.summary.distance_miles).toBe(124.5);
+  });
+
+  it("search_idles compares drain with and without sentry", async () => {
+    const res = await invoke("search_idles", { vin });
+    expect(res.idles.items.length).toBe(2);
+    expect(res.drain.overall).toMatchObject({ idles: 2, hours_parked: 24, battery_lost_percent: 7 });
+    expect(res.drain.sentry_mostly_on.drain_percent_per_day).toBe(12);
+    expect(res.drain.sentry_mostly_off.drain_percent_per_day).toBe(2);
+    expect(res.last_idle_state.battery_level).toBe(80);
+  });
+
+  it("get_efficiency_report summarizes Wh/mi by day and temperature", async () => {
+    const res = await invoke("get_efficiency_report", { vin });
+    expect(mockClient.getAllDrives).toHaveBeenLastCalledWith(vin, { start: undefined, end: undefined });
+    expect(res.truncated).toBe(false);
+    expect(res.overall).toEqual({ drives: 3, distance_miles: 60, energy_kwh: 17, wh_per_mile: 283.3 });
+    expect(res.by_day.map((day: { day: string }) => day.day)).toEqual(["2024-01-01", "2024-01-02", "2024-01-03"]);
+    expect(res.by_outside_temp).toEqual([
+      { band: "below 0°C", drives: 1, distance_miles: 10, energy_kwh: 3, wh_per_mile: 300 },
+      { band: "10-20°C", drives: 2, distance_miles: 50, energy_kwh: 14, wh_per_mile: 280 },
+    ]);
+    expect(res.best_trips[0].id).toBe(2);
+    expect(res.worst_trips).toEqual([]);
+    expect(res.since_last_charge).toMatchObject({ wh_per_mile: 333.3, driving_share_percent: 75 });
+  });
+
+  it("get_efficiency_report buckets days in the requested time zone", async () => {
+    const res = await invoke("get_efficiency_report", { vin, timezone: "America/Los_Angeles" });
+    expect(res.timezone).toBe("America/Los_Angeles");
+    expect(res.by_day.map((day: { day: string }) => day.day)).toEqual(["2023-12-31", "2024-01-01", "2024-01-02"]);
+  });
+
+  it("summarize_mileage buckets drives in the requested time zone", async () => {
+    const res = await invoke("summarize_mileage", { vin, period: "month", timezone: "America/Los_Angeles" });
+    expect(res.totals).toMatchObject({ drives: 3, distance_miles: 60, energy_kwh: 17 });
+    expect(res.buckets.items).toEqual([
+      expect.objectContaining({ month: "2023-12", drives: 1, distance_miles: 10 }),
+      expect.objectContaining({ month: "2024-01", drives: 2, distance_miles: 50 }),
+    ]);
+    expect(res.truncated).toBe(false);
+    expect(() => getTool(server as any, "summarize_mileage").inputSchema.parse({ vin, timezone: "Mars/Base" })).toThrow();
+  });
+
+  it("tag_drives forwards drive IDs and the tag", async () => {
+    const res = await invoke("tag_drives", { vin, drive_ids: [1, 2], tag: " business " });
+    expect(mockClient.setDriveTag).toHaveBeenCalledWith(vin, [1, 2], "business");
+    expect(res.result).toEqual({ result: true });
+  });
+
+  it("generate_trip_log exports tagged drives as CSV", async () => {
+    mockClient.getAllDrives.mockResolvedValueOnce({
+      drives: [
+        { ...drives[1], tag: "business", starting_location: "Home", ending_location: "Office, Suite 2", starting_odometer: 1010, ending_odometer: 1030 },
+        { ...drives[0], tag: "business", starting_location: "Office", ending_location: "Home", starting_odometer: 1000, ending_odometer: 1010 },
+        { ...drives[2], tag: null },
+      ],
+      truncated: false,
+    });
+    const res = await invoke("generate_trip_log", { vin });
+    expect(res.entries_count).toBe(2);
+    expect(res.totals_by_purpose).toEqual([{ purpose: "business", drives: 2, distance_miles: 30 }]);
+    expect(res.csv.split("\r\n")).toEqual([
+      "date,from,to,distance_miles,odometer_start,odometer_end,purpose,drive_id",
+      "2024-01-01,Office,Home,10,1000,1010,business,1",
+      '2024-01-02,Home,"Office, Suite 2",20,1010,1030,business,2',
+    ]);
+  });
+
+  it("get_tire_pressure converts to PSI and flags a slow leak", async () => {
+    const res = await invoke("get_tire_pressure", { vin, lookback_days: 7 });
+    const [, range] = mockClient.getTirePressure.mock.calls.at(-1);
+    expect(Date.parse(range.end) - Date.parse(range.start)).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(res.measured_at).toBe(1704326400);
+    expect(res.history_readings).toBe(2);
+    const frontLeft = res.corners.find((corner: { corner: string }) => corner.corner === "front_left");
+    expect(frontLeft).toMatchObject({ psi: 38, bar: 2.62, threshold: "ok", slow_leak: true, drop_psi: 3.9 });
+    expect(res.corners.filter((corner: { slow_leak: boolean }) => corner.slow_leak)).toHaveLength(1);
+    expect(res.alerts).toEqual([expect.stringContaining("front_left may have a slow leak")]);
+  });
+
+  it("get_vehicle_location combines address, saved location and weather", async () => {
+    const res = await invoke("get_vehicle_location", { vin });
+    expect(res).toMatchObject({
+      address: "45500 Fremont Blvd, Fremont, CA",
+      saved_location: "Work",
+      weather: { condition: "Clear", feels_like_c: 0.4 },
+      precondition_recommended: true,
+    });
+  });
+
+  it("get_vehicle_map returns image content after the JSON text", async () => {
+    const tool = getTool(server as any, "get_vehicle_map");
+    const result = await tool.callback(tool.inputSchema.parse({ vin, zoom: 14 }));
+    expect(mockClient.getMap).toHaveBeenCalledWith(vin, expect.objectContaining({ zoom: 14 }));
+    expect(JSON.parse(result.content[0].text).mime_type).toBe("image/png");
+    expect(result.content[1]).toEqual({ type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" });
+  });
+
+  it("get_vehicle_map renders a drive's path as a PNG from the /path results", async () => {
+    const getMock = jest.fn().mockResolvedValue({
+      data: {
+        results: [
+          { timestamp: 1704103200, latitude: 37.77, longitude: -122.42 },
+          { timestamp: 1704103260, latitude: 37.78, longitude: -122.41 },
+          { timestamp: 1704103320, latitude: null, longitude: null },
+          { timestamp: 1704103380, latitude: 37.8, longitude: -122.4 },
+        ],
+      },
+    });
+    const pathClient = new TessieClient("test");
+    (pathClient as any).client = { get: getMock, post: jest.fn() };
+    const tool = getTool(createServer({ config: { accessToken: "test", auditLogPath }, client: pathClient }), "get_vehicle_map");
+    const result = await tool.callback(
+      tool.inputSchema.parse({ vin, start: "2024-01-01T10:00:00Z", end: "2024-01-01T10:30:00Z", width: 320, height: 200 }),
+    );
+    expect(getMock).toHaveBeenCalledTimes(1);
+    expect(getMock).toHaveBeenCalledWith(`/${vin}/path`, { params: { from: "1704103200", to: "1704105000" } });
+    const payload = JSON.parse(result.content[0].text);
+    expect(payload.point_count).toBe(3);
+    expect(payload.end_point).toEqual({ latitude: 37.8, longitude: -122.4 });
+    expect(result.content[1]).toMatchObject({ type: "image", mimeType: "image/png" });
+    const png = Buffer.from(result.content[1].data, "base64");
+    expect(png.subarray(1, 4).toString("ascii")).toBe("PNG");
+    expect([png.readUInt32BE(16), png.readUInt32BE(20)]).toEqual([320, 200]);
+  });
+
+  it("get_software_update_status recommends installing a downloaded update while parked", async () => {
+    mockClient.getVehicleState.mockResolvedValueOnce({
+      ...state,
+      vehicle_state: {
+        ...state.vehicle_state,
+        car_version: "2024.2.7",
+        software_update: { status: "available", version: "2024.8.4", download_perc: 100, expected_duration_sec: 1500 },
+      },
+    });
+    const res = await invoke("get_software_update_status", { vin });
+    expect(res.update).toMatchObject({ status: "available", version: "2024.8.4", expected_duration_minutes: 25 });
+    expect(res.recommendation.action).toBe("install_now");
+    expect(res.firmware_alerts.items[0]).toMatchObject({ name: "GTW_w109_swUpdateAvailable", message: "Update ready" });
+  });
+
+  it("manage_vehicle_access lists drivers and invitations and creates invitations", async () => {
+    const list = await invoke("manage_vehicle_access", { vin, action: "list" });
+    expect(list.drivers.items).toEqual([{ id: 7, name: "Sam Lee" }]);
+    expect(list.invitations.items[0]).toMatchObject({ id: 9, state: "pending" });
+
+    const created = await invoke("manage_vehicle_access", { vin, action: "create_invitation" });
+    expect(created.invitation.share_link).toBe("https://tesla.com/y");
+  });
+
+  it("manage_vehicle_access gates revoke and delete behind confirm", async () => {
+    const blocked = await invoke("manage_vehicle_access", { vin, action: "delete_driver", id: 7 });
+    expect(blocked.isError).toBe(true);
+    expect(mockClient.deleteDriver).not.toHaveBeenCalled();
+
+    const missingId = await invoke("manage_vehicle_access", { vin, action: "revoke_invitation", confirm: true });
+    expect(missingId.message).toContain("id is required");
+
+    await invoke("manage_vehicle_access", { vin, action: "revoke_invitation", id: 9, confirm: true });
+    expect(mockClient.revokeInvitation).toHaveBeenCalledWith(vin, 9);
+  });
+
+  it("manage_telemetry_config reads the config and gates changes behind confirm", async () => {
+    const config = await invoke("manage_telemetry_config", { vin, action: "get" });
+    expect(config).toMatchObject({ synced: true, expires_at: "2025-01-01T00:00:00.000Z" });
+    expect(config.fields.map((field: any) => field.name)).toEqual(["Soc", "VehicleSpeed"]);
+
+    const blocked = await invoke("manage_telemetry_config", { vin, action: "delete" });
+    expect(blocked.isError).toBe(true);
+    expect(blocked.guidance).toContain("disables Tessie features");
+    expect(mockClient.deleteTelemetryConfig).not.toHaveBeenCalled();
+
+    const recommended = await invoke("manage_telemetry_config", { vin, action: "set", confirm: true });
+    expect(recommended.mode).toBe("recommended");
+    expect(mockClient.setTelemetryConfig).toHaveBeenLastCalledWith(vin, undefined);
+
+    const fields = { Soc: { interval_seconds: 30 } };
+    await invoke("manage_telemetry_config", { vin, action: "set", fields, confirm: true });
+    expect(mockClient.setTelemetryConfig).toHaveBeenLastCalledWith(vin, fields);
+  });
+
+  it("manage_telemetry_config rejects malformed field names and sub-second intervals", () => {
+    const schema = getTool(server, "manage_telemetry_config").inputSchema;
+    expect(() => schema.parse({ vin, action: "set", fields: { soc: { interval_seconds: 30 } } })).toThrow(
+      /Invalid Fleet Telemetry field name/,
+    );
+    expect(() =>
+      schema.parse({ vin, action: "set", fields: { LifetimeEnergyGainedRegen: { interval_seconds: 60 } }, confirm: true }),
+    ).not.toThrow();
+    expect(() => schema.parse({ vin, action: "set", fields: { Soc: { interval_seconds: 0 } } })).toThrow();
+  });
+
+  it("manage_vehicle_command requires confirm for keyless driving", async () => {
+    mockClient.sendCommand.mockClear();
+    const blocked = await invoke("manage_vehicle_command", { vin, operation: "remote_start" });
+    expect(blocked.isError).toBe(true);
+    expect(mockClient.sendCommand).not.toHaveBeenCalled();
+
+    await invoke("manage_vehicle_command", {
+      vin,
+      operation: "remote_start",
+      params: { confirm: true },
+      verify_timeout_seconds: 0,
+    });
+    expect(mockClient.sendCommand).toHaveBeenCalledWith(vin, "remote_start", { wait_for_completion: true });
+  });
+
+  it("manage_vehicle_command wakes an asleep car, reports phases and streams progress", async () => {
+    mockClient.sendCommand.mockClear();
+    mockClient.wake.mockClear();
+    mockClient.getStatus.mockResolvedValueOnce({ status: "asleep" }).mockResolvedValueOnce({ status: "awake" });
+    const sendNotification = jest.fn().mockResolvedValue(undefined);
+    const tool = getTool(server, "manage_vehicle_command");
+    const result = await tool.callback(
+      tool.inputSchema.parse({ vin, operation: "lock", params: { confirm: true } }),
+      { _meta: { progressToken: "t1" }, sendNotification },
+    );
+    const res = JSON.parse(result.content[0].text);
+
+    expect(mockClient.wake).toHaveBeenCalledWith(vin, expect.objectContaining({ timeoutMs: expect.any(Number) }));
+    expect(res.wake).toMatchObject({ awake: true, woke: true });
+    expect(res.wake.phases.map((phase: any) => phase.phase)).toEqual(["status", "wake", "poll", "online"]);
+    expect(res.verification).toMatchObject({ status: "verified", attempts: 1 });
+    expect(mockClient.getVehicleState).toHaveBeenLastCalledWith(vin, { useCache: false, refresh: true });
+    expect(mockClient.sendCommand).toHaveBeenCalledTimes(1);
+    expect(sendNotification).toHaveBeenCalledTimes(4);
+    expect(sendNotification.mock.calls[3][0]).toMatchObject({
+      method: "notifications/progress",
+      params: { progressToken: "t1", progress: 60000, total: 60000, message: "online: awake" },
+    });
+  });
+
+  it("manage_vehicle_command keeps polling when the wake request times out", async () => {
+    mockClient.sendCommand.mockClear();
+    mockClient.wake.mockRejectedValueOnce({
+      isError: true,
+      message: "timeout of 30000ms exceeded",
+      details: { context: "wake", code: "ECONNABORTED" },
+    });
+    mockClient.getStatus.mockResolvedValueOnce({ status: "asleep" }).mockResolvedValueOnce({ status: "awake" });
+    const res = await invoke("manage_vehicle_command", {
+      vin,
+      operation: "lock",
+      params: { confirm: true },
+      wake_timeout_seconds: 20,
+      verify_timeout_seconds: 0,
+    });
+
+    expect(mockClient.wake).toHaveBeenLastCalledWith(vin, expect.objectContaining({ timeoutMs: expect.any(Number) }));
+    expect(mockClient.wake.mock.calls.at(-1)[1].timeoutMs).toBeLessThanOrEqual(20000);
+    expect(res.wake.phases.map((phase: any) => [phase.phase, phase.status])).toEqual([
+      ["status", "asleep"],
+      ["wake", "unconfirmed"],
+      ["poll", "awake"],
+      ["online", "awake"],
+    ]);
+    expect(mockClient.sendCommand).toHaveBeenCalledTimes(1);
+  });
+
+  it("manage_vehicle_command does not send when the car stays asleep", async () => {
+    mockClient.sendCommand.mockClear();
+    mockClient.getStatus
+      .mockResolvedValueOnce({ status: "asleep" })
+      .mockResolvedValueOnce({ status: "asleep" })
+      .mockResolvedValueOnce({ status: "asleep" });
+    jest.useFakeTimers();
+    const pending = invoke("manage_vehicle_command", {
+      vin,
+      operation: "lock",
+      params: { confirm: true },
+      wake_timeout_seconds: 1,
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+    const res = await pending;
+    jest.useRealTimers();
+
+    expect(res.isError).toBe(true);
+    expect(res.message).toContain("did not come online within 1s");
+    expect(res.wake.phases.at(-1).phase).toBe("timeout");
+    expect(mockClient.sendCommand).not.toHaveBeenCalled();
+  });
+
+  it("manage_vehicle_command reports a mismatch when state never reflects the command", async () => {
+    jest.useFakeTimers();
+    const pending = invoke("manage_vehicle_command", {
+      vin,
+      operation: "set_charge_limit",
+      params: { charge_limit_percent: 90, confirm: true },
+      verify_timeout_seconds: 1,
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+    const res = await pending;
+    jest.useRealTimers();
+
+    expect(res.verification.status).toBe("mismatch");
+    expect(res.verification.checks).toEqual([
+      { path: "charge_state.charge_limit_soc", equals: 90, observed: undefined, ok: false },
+    ]);
+    expect(res.guidance).toContain("do not report success");
+  });
+
+  it("manage_vehicle_command verifies set_speed_limit against the current speed limit", async () => {
+    mockClient.getVehicleState.mockResolvedValueOnce({
+      ...state,
+      vehicle_state: { ...state.vehicle_state, speed_limit_mode: { active: false, current_limit_mph: 65, max_limit_mph: 90 } },
+    });
+    const res = await invoke("manage_vehicle_command", {
+      vin,
+      operation: "set_speed_limit",
+      params: { speed_limit_mph: 65, confirm: true },
+      verify_timeout_seconds: 1,
+    });
+
+    expect(mockClient.sendCommand).toHaveBeenLastCalledWith(vin, "set_speed_limit", { mph: 65, wait_for_completion: true });
+    expect(res.verification.status).toBe("verified");
+    expect(res.verification.checks).toEqual([
+      { path: "vehicle_state.speed_limit_mode.current_limit_mph", equals: 65, observed: 65, ok: true },
+    ]);
+  });
+
+  it("manage_vehicle_command wakes through the wake endpoint rather than a vehicle command", async () => {
+    mockClient.wake.mockClear();
+    mockClient.sendCommand.mockClear();
+    mockClient.getVehicleState.mockResolvedValueOnce({ ...state, state: "online" });
+    const res = await invoke("manage_vehicle_command", { vin, operation: "wake", verify_timeout_seconds: 1 });
+
+    expect(mockClient.wake).toHaveBeenCalledWith(vin, expect.objectContaining({ timeoutMs: 60000 }));
+    expect(mockClient.sendCommand).not.toHaveBeenCalled();
+    expect(res.request).toEqual({});
+    expect(res.verification.status).toBe("verified");
+
+    const [latest] = await invoke("get_command_history", { operation: "wake", limit: 1 }).then((history) => history.entries.items);
+    expect(latest.payload).toEqual({});
+  });
+
+  it("manage_vehicle_command accepts a cabin setpoint the car rounded", async () => {
+    mockClient.getVehicleState.mockResolvedValueOnce({
+      ...state,
+      climate_state: { ...state.climate_state, driver_temp_setting: 21.7 },
+    });
+    const res = await invoke("manage_vehicle_command", {
+      vin,
+      operation: "set_temperature",
+      params: { cabin_temp_c: 21.5, confirm: true },
+      verify_timeout_seconds: 1,
+    });
+
+    expect(mockClient.sendCommand).toHaveBeenLastCalledWith(vin, "set_temperatures", { temperature: 21.5, wait_for_completion: true });
+    expect(res.verification.status).toBe("verified");
+    expect(res.verification.checks[0]).toMatchObject({ observed: 21.7, tolerance: 0.5, ok: true });
+  });
+
+  it("manage_vehicle_command reports a timeout when state cannot be read", async () => {
+    mockClient.getVehicleState
+      .mockRejectedValueOnce(new Error("vehicle unavailable"))
+      .mockRejectedValueOnce(new Error("vehicle unavailable"));
+    jest.useFakeTimers();
+    const pending = invoke("manage_vehicle_command", {
+      vin,
+      operation: "enable_sentry_mode",
+      params: { confirm: true },
+      verify_timeout_seconds: 1,
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+    const res = await pending;
+    jest.useRealTimers();
+
+    expect(res.verification).toMatchObject({ status: "timeout", attempts: 2, error: "vehicle unavailable" });
+  });
+
+  it("warns once when the audit log cannot be written", async () => {
+    const blocker = join(mkdtempSync(join(tmpdir(), "tessie-audit-")), "not-a-dir");
+    writeFileSync(blocker, "");
+    const log = new CommandAuditLog(join(blocker, "audit.jsonl"));
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const entry = { timestamp: new Date().toISOString(), operation: "lock", payload: {}, confirm: true, outcome: "sent" as const, latency_ms: 1 };
+    await log.append(entry);
+    await log.append(entry);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("get_command_history returns audited commands newest first with the PIN redacted", async () => {
+    await invoke("manage_vehicle_command", {
+      vin,
+      operation: "enable_speed_limit",
+      params: { speed_limit_pin: "1234", confirm: true },
+      verify_timeout_seconds: 0,
+    });
+    await invoke("manage_vehicle_command", { vin, operation: "unlock" });
+
+    const history = await invoke("get_command_history", { vin: "7ABC123", limit: 2 });
+    expect(history.filter.vin).toBe(vin);
+    const [unlock, speedLimit] = history.entries.items;
+    expect(unlock).toMatchObject({ vin, operation: "unlock", confirm: false, outcome: "rejected" });
+    expect(speedLimit).toMatchObject({
+      operation: "enable_speed_limit",
+      confirm: true,
+      outcome: "sent",
+      verification: "skipped",
+      payload: { pin: "[REDACTED]", wait_for_completion: true },
+    });
+    expect(typeof speedLimit.latency_ms).toBe("number");
+
+    const rejected = await invoke("get_command_history", { outcome: "rejected", operation: "unlock" });
+    expect(rejected.entries.items.every((entry: any) => entry.operation === "unlock")).toBe(true);
+  });
+
+  it("set_charge_cost forwards the corrected cost", async () => {
+    const res = await invoke("set_charge_cost", { vin, charge_id: 2, cost: 3.75 });
+    expect(mockClient.setChargeCost).toHaveBeenCalledWith(vin, 2, 3.75);
+    expect(res.result).toEqual({ result: true });
+  });
+
+  it("get_charging_invoices totals by vehicle and currency", async () => {
+    const res = await invoke("get_charging_invoices", { start: "2024-01-01T00:00:00Z" });
+    expect(res.totals_by_vehicle).toEqual([
+      { vin, currency: "USD", invoices: 2, energy_kwh: 60.5, cost: 27.75 },
+      { vin: "5YJ3E1EA7KF317001", currency: "EUR", invoices: 1, energy_kwh: 30, cost: 12 },
+    ]);
+    expect(res.totals_by_currency).toEqual([
+      { currency: "USD", cost: 27.75 },
+      { currency: "EUR", cost: 12 },
+    ]);
+  });
+
+  it("resolves vehicles by plate or display name and rejects ambiguous names", async () => {
+    const byPlate = await invoke("fetch_vehicle_state", { vin: "7abc 123" });
+    expect(byPlate.summary.vin).toBe(vin);
+    const byName = await invoke("fetch_vehicle_battery", { vin: "car 1" });
+    expect(byName.summary.vin).toBe(vin);
+
+    const ambiguous = await invoke("fetch_vehicle_state", { vin: "Car 2" });
+    expect(ambiguous.isError).toBe(true);
+    expect(ambiguous.message).toContain("matches 2 vehicles");
+    const unknown = await invoke("fetch_vehicle_state", { vin: "Nope" });
+    expect(unknown.message).toContain("No vehicle matches");
+  });
+
+  it("looks up plates the vehicle list omits before giving up on a reference", async () => {
+    mockClient.getPlate.mockImplementation(async (plateVin: string) =>
+      plateVin === "5YJ3E1EA7KF317001" ? "9DEF456" : undefined,
+    );
+    const res = await invoke("fetch_vehicle_state", { vin: "9def 456" });
+    expect(res.summary.vin).toBe("5YJ3E1EA7KF317001");
+    expect(mockClient.getPlate).not.toHaveBeenCalledWith(vin);
+    mockClient.getPlate.mockResolvedValue(undefined);
+  });
+
+  it("set_license_plate stores the plate for a resolved vehicle", async () => {
+    await invoke("set_license_plate", { vin: "Car 1", plate: "8XYZ999" });
+    expect(mockClient.setPlate).toHaveBeenCalledWith(vin, "8XYZ999");
+  });
+
+  it("resolves VIN suffixes and requires a default when several vehicles exist", async () => {
+    const bySuffix = await invoke("fetch_vehicle_state", { vin: "7000" });
+    expect(bySuffix.summary.vin).toBe(vin);
+
+    const missing = await invoke("fetch_vehicle_state", {});
+    expect(missing.message).toContain("no default vehicle is configured");
+
+    const withDefault = makeInvoke(
+      createServer({ config: { accessToken: "test", defaultVehicle: "7ABC123" }, client: mockClient as any }),
+    );
+    const res = await withDefault("fetch_vehicle_state", { vin: "default vehicle" });
+    expect(res.summary.vin).toBe(vin);
+  });
+
+  it("falls back to the only vehicle on single-vehicle accounts", async () => {
+    const single = { ...mockClient, listVehicles: jest.fn().mockResolvedValue([vehicles[1]]) };
+    const singleInvoke = makeInvoke(createServer({ config: { accessToken: "test" }, client: single as any }));
+    const res = await singleInvoke("fetch_vehicle_battery", {});
+    expect(res.summary.vin).toBe("5YJ3E1EA7KF317001");
+  });
+
+  it("fleet_overview builds rows from last-known state and reports flags", async () => {
+    mockClient.getVehicleState
+      .mockResolvedValueOnce({ ...state, vehicle_state: { ...state.vehicle_state, locked: false } })
+      .mockResolvedValueOnce({ ...state, charge_state: { battery_level: 15, charging_state: "Charging" } })
+      .mockRejectedValueOnce(new Error("offline"));
+    const res = await invoke("fleet_overview", {});
+    expect(res.vehicles).toBe(3);
+    expect(mockClient.getVehicleState).toHaveBeenCalledWith(vin, { useCache: true });
+    expect(res.rows.items[0]).toMatchObject({ vin, plate: "7ABC123", locked: false, location: "Work" });
+    expect(res.rows.items[2]).toMatchObject({ vin: "5YJ3E1EA7KF317002", error: "offline" });
+    expect(res.flags).toEqual(["1 car unlocked", "1 below 20%", "1 car charging", "1 car without data"]);
+  });
+
+  it("reads cached state by default and only goes live with wake_policy allow", async () => {
+    mockClient.getVehicleState.mockResolvedValueOnce({ ...state, state: "asleep", timestamp: Date.now() - 3600 * 1000 });
+    const cached = await invoke("fetch_vehicle_state", { vin });
+    expect(mockClient.getVehicleState).toHaveBeenLastCalledWith(vin, { useCache: true });
+    expect(cached.freshness).toMatchObject({ source: "cached", asleep: true });
+    expect(cached.freshness.age_seconds).toBeGreaterThanOrEqual(3600);
+    expect(cached.freshness.guidance).toContain("wake_policy: allow");
+
+    const live = await invoke("fetch_vehicle_state", { vin, wake_policy: "allow" });
+    expect(mockClient.getVehicleState).toHaveBeenLastCalledWith(vin, { useCache: false });
+    expect(live.freshness.source).toBe("live");
+  });
 });